@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "conversation_type" AS ENUM ('DIRECT', 'GROUP');
+
+-- CreateEnum
+CREATE TYPE "member_role" AS ENUM ('OWNER', 'ADMIN', 'MEMBER');
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "type" "conversation_type" NOT NULL DEFAULT 'DIRECT',
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "avatar_url" TEXT,
+ALTER COLUMN "participant_one" DROP NOT NULL,
+ALTER COLUMN "participant_two" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "conversation_members" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" "member_role" NOT NULL DEFAULT 'MEMBER',
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "conversation_members_user_id_idx" ON "conversation_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_members_conversation_id_user_id_key" ON "conversation_members"("conversation_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "conversation_members" ADD CONSTRAINT "conversation_members_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_members" ADD CONSTRAINT "conversation_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill memberships for existing direct conversations
+INSERT INTO "conversation_members" ("id", "conversation_id", "user_id", "role", "joined_at")
+SELECT gen_random_uuid()::text, "id", "participant_one", 'MEMBER', "created_at" FROM "conversations"
+UNION ALL
+SELECT gen_random_uuid()::text, "id", "participant_two", 'MEMBER', "created_at" FROM "conversations";
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "edited_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "message_revisions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_revisions_message_id_idx" ON "message_revisions"("message_id");
+
+-- AddForeignKey
+ALTER TABLE "message_revisions" ADD CONSTRAINT "message_revisions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
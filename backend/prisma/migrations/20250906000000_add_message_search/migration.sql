@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce("content", '') || ' ' || coalesce("file_name", ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "messages_search_vector_idx" ON "messages" USING GIN ("search_vector");
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "messages_conversation_id_created_at_id_idx" ON "messages"("conversation_id", "created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "messages_updated_at_idx" ON "messages"("updated_at");
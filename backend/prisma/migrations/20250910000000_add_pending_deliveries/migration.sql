@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "pending_deliveries" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pending_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_deliveries_user_id_message_id_key" ON "pending_deliveries"("user_id", "message_id");
+
+-- CreateIndex
+CREATE INDEX "pending_deliveries_user_id_created_at_idx" ON "pending_deliveries"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "pending_deliveries" ADD CONSTRAINT "pending_deliveries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pending_deliveries" ADD CONSTRAINT "pending_deliveries_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
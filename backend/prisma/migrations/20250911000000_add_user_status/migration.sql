@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "user_status" AS ENUM ('ONLINE', 'AWAY', 'BUSY', 'INVISIBLE');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "status" "user_status" NOT NULL DEFAULT 'ONLINE',
+ADD COLUMN     "status_message" TEXT,
+ADD COLUMN     "status_expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_status_expires_at_idx" ON "users"("status_expires_at");
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "last_seen_visibility" AS ENUM ('EVERYONE', 'FRIENDS', 'NOBODY');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "last_seen_visibility" "last_seen_visibility" NOT NULL DEFAULT 'EVERYONE',
+ADD COLUMN     "read_receipts_enabled" BOOLEAN NOT NULL DEFAULT true;
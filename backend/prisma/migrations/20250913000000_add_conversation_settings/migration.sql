@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "conversation_settings" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "muted_until" TIMESTAMP(3),
+    "archived_at" TIMESTAMP(3),
+    "pin_order" INTEGER,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversation_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_settings_conversation_id_user_id_key" ON "conversation_settings"("conversation_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "conversation_settings_user_id_idx" ON "conversation_settings"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "conversation_settings" ADD CONSTRAINT "conversation_settings_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_settings" ADD CONSTRAINT "conversation_settings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "conversation_drafts" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversation_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_drafts_conversation_id_user_id_key" ON "conversation_drafts"("conversation_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "conversation_drafts_user_id_idx" ON "conversation_drafts"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "conversation_drafts" ADD CONSTRAINT "conversation_drafts_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_drafts" ADD CONSTRAINT "conversation_drafts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
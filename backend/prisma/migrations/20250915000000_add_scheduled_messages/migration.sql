@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "scheduled_message_status" AS ENUM ('PENDING', 'SENT', 'CANCELLED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "scheduled_messages" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "sender_id" TEXT NOT NULL,
+    "content" TEXT,
+    "message_type" "message_type" NOT NULL,
+    "file_url" TEXT,
+    "file_name" TEXT,
+    "file_size" INTEGER,
+    "file_mime_type" TEXT,
+    "reply_to_id" TEXT,
+    "send_at" TIMESTAMP(3) NOT NULL,
+    "status" "scheduled_message_status" NOT NULL DEFAULT 'PENDING',
+    "claimed_until" TIMESTAMP(3),
+    "message_id" TEXT,
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_status_send_at_idx" ON "scheduled_messages"("status", "send_at");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_sender_id_conversation_id_idx" ON "scheduled_messages"("sender_id", "conversation_id");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_sender_id_fkey" FOREIGN KEY ("sender_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
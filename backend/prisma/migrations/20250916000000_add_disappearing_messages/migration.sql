@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "message_type" ADD VALUE 'SYSTEM';
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "message_ttl_seconds" INTEGER;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "messages_expires_at_idx" ON "messages"("expires_at");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "is_forwarded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "forwarded_from_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_forwarded_from_id_fkey" FOREIGN KEY ("forwarded_from_id") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
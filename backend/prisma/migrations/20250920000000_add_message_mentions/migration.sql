@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "message_mentions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "offset" INTEGER NOT NULL,
+    "length" INTEGER NOT NULL,
+
+    CONSTRAINT "message_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_mentions_message_id_offset_key" ON "message_mentions"("message_id", "offset");
+
+-- CreateIndex
+CREATE INDEX "message_mentions_user_id_idx" ON "message_mentions"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "message_mentions" ADD CONSTRAINT "message_mentions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_mentions" ADD CONSTRAINT "message_mentions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
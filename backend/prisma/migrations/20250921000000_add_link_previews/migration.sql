@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "link_preview_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "link_previews" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "description" TEXT,
+    "image_url" TEXT,
+    "site_name" TEXT,
+    "fetched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "link_previews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "link_preview_jobs" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "claimed_until" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "link_preview_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "link_previews_url_key" ON "link_previews"("url");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "link_preview_jobs_message_id_key" ON "link_preview_jobs"("message_id");
+
+-- CreateIndex
+CREATE INDEX "link_preview_jobs_created_at_idx" ON "link_preview_jobs"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_link_preview_id_fkey" FOREIGN KEY ("link_preview_id") REFERENCES "link_previews"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "link_preview_jobs" ADD CONSTRAINT "link_preview_jobs_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "expired_messages" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "expired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "expired_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expired_messages_message_id_key" ON "expired_messages"("message_id");
+
+-- CreateIndex
+CREATE INDEX "expired_messages_conversation_id_expired_at_idx" ON "expired_messages"("conversation_id", "expired_at");
+
+-- CreateIndex
+CREATE INDEX "expired_messages_expired_at_idx" ON "expired_messages"("expired_at");
+
+-- AddForeignKey
+ALTER TABLE "expired_messages" ADD CONSTRAINT "expired_messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "content_updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill from the last write, the closest record of the last content change
+UPDATE "messages" SET "content_updated_at" = "updated_at";
+
+-- DropIndex
+DROP INDEX "messages_updated_at_idx";
+
+-- CreateIndex
+CREATE INDEX "messages_content_updated_at_idx" ON "messages"("content_updated_at");
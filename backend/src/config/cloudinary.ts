@@ -44,9 +44,9 @@ export const uploadToCloudinary = async (
   }
 };
 
-export const deleteFromCloudinary = async (publicId: string): Promise<void> => {
+export const deleteFromCloudinary = async (publicId: string, resourceType: string = 'image'): Promise<void> => {
   try {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
     logger.info('File deleted from Cloudinary:', publicId);
   } catch (error) {
     logger.error('Error deleting file from Cloudinary:', error);
@@ -54,4 +54,17 @@ export const deleteFromCloudinary = async (publicId: string): Promise<void> => {
   }
 };
 
+// Resolve the public ID and resource type from a Cloudinary delivery URL
+// (https://res.cloudinary.com/<cloud>/<resource_type>/upload/v<version>/<public_id>.<format>)
+export const getCloudinaryAsset = (url: string): { publicId: string; resourceType: string } | null => {
+  const match = url.match(/\/(image|video|raw)\/upload\/(?:v\d+\/)?(.+)$/);
+  if (!match) return null;
+
+  const [, resourceType, path] = match;
+  // Raw files keep their extension as part of the public ID
+  const publicId = resourceType === 'raw' ? path : path.replace(/\.[^/.]+$/, '');
+
+  return { publicId: decodeURIComponent(publicId), resourceType };
+};
+
 export { cloudinary };
@@ -0,0 +1,49 @@
+import { createClient } from 'redis';
+import { logger } from './logger';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+// Redis is optional; without REDIS_URL the server runs as a single self-contained instance
+export const isRedisEnabled = (): boolean => !!process.env.REDIS_URL;
+
+const openClients: RedisClient[] = [];
+
+const createRedisClient = (): RedisClient => createClient({ url: process.env.REDIS_URL });
+
+const connectClient = async (client: RedisClient, name: string): Promise<RedisClient> => {
+  client.on('error', (error) => {
+    logger.error(`Redis ${name} client error:`, error);
+  });
+
+  await client.connect();
+  openClients.push(client);
+  return client;
+};
+
+// Publisher/subscriber pair used by the Socket.io adapter to share broadcasts between instances
+export const createRedisPubSub = async () => {
+  const pubClient = createRedisClient();
+  const subClient = createRedisClient();
+
+  await Promise.all([
+    connectClient(pubClient, 'publisher'),
+    connectClient(subClient, 'subscriber'),
+  ]);
+
+  return { pubClient, subClient };
+};
+
+let commandClient: Promise<RedisClient> | null = null;
+
+// Shared client for regular commands, connected on first use
+export const getRedisClient = (): Promise<RedisClient> => {
+  if (!commandClient) {
+    commandClient = connectClient(createRedisClient(), 'command');
+  }
+  return commandClient;
+};
+
+export const closeRedisConnections = async () => {
+  commandClient = null;
+  await Promise.all(openClients.splice(0).map(client => client.quit()));
+};
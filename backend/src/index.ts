@@ -8,9 +8,11 @@ import compression from 'compression';
 import morgan from 'morgan';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 
 import { logger } from './config/logger';
 import { prisma } from './config/database';
+import { isRedisEnabled, createRedisPubSub, closeRedisConnections } from './config/redis';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { generalLimiter } from './middleware/rateLimiting';
 
@@ -19,6 +21,9 @@ import authRoutes from './routes/auth';
 import friendsRoutes from './routes/friends';
 import usersRoutes from './routes/users';
 import conversationsRoutes from './routes/conversations';
+import messagesRoutes from './routes/messages';
+import mentionsRoutes from './routes/mentions';
+import syncRoutes from './routes/sync';
 import uploadRoutes from './routes/upload';
 
 const app = express();
@@ -80,14 +85,26 @@ app.use('/api/auth', authRoutes);
 app.use('/api/friends', friendsRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/conversations', conversationsRoutes);
+app.use('/api/messages', messagesRoutes);
+app.use('/api/mentions', mentionsRoutes);
+app.use('/api/sync', syncRoutes);
 app.use('/api/upload', uploadRoutes);
 
 // Import socket handlers
 import { authenticateSocket, AuthenticatedSocket } from './middleware/socketAuth';
 import { setupMessageHandlers } from './socket/messageHandlers';
-import { setupActivityHandlers, cleanupTypingActivities } from './socket/activityHandlers';
+import { setupActivityHandlers } from './socket/activityHandlers';
+import { initPresenceStore } from './socket/presenceStore';
+import { setSocketServer, userRoom } from './socket/emitter';
+import { flushPendingDeliveries } from './socket/deliveryQueue';
+import { expireUserStatuses } from './utils/status';
+import { deliverDueScheduledMessages, SCHEDULED_MESSAGE_CHECK_INTERVAL_MS } from './utils/scheduledMessages';
+import { deleteExpiredMessages } from './utils/disappearingMessages';
+import { processLinkPreviewJobs, LINK_PREVIEW_CHECK_INTERVAL_MS } from './utils/linkPreviews';
+import { PRESENCE, DISAPPEARING_MESSAGES } from '@toff/shared';
 
 // Socket.io connection handling
+setSocketServer(io);
 io.use(authenticateSocket);
 
 io.on('connection', (socket: AuthenticatedSocket) => {
@@ -97,6 +114,9 @@ io.on('connection', (socket: AuthenticatedSocket) => {
     username: socket.user?.username 
   });
 
+  // Join user's personal room so membership changes reach every device
+  socket.join(userRoom(socket.userId!));
+
   // Setup event handlers
   setupMessageHandlers(io, socket);
   setupActivityHandlers(io, socket);
@@ -107,6 +127,11 @@ io.on('connection', (socket: AuthenticatedSocket) => {
     user: socket.user,
   });
 
+  // Push messages that arrived while the user was offline
+  flushPendingDeliveries(socket).catch(error => {
+    logger.error('Error flushing pending deliveries:', error);
+  });
+
   socket.on('disconnect', () => {
     logger.info('User disconnected:', { 
       socketId: socket.id, 
@@ -115,8 +140,17 @@ io.on('connection', (socket: AuthenticatedSocket) => {
   });
 });
 
-// Cleanup old typing activities every 5 minutes
-setInterval(cleanupTypingActivities, 5 * 60 * 1000);
+// Reset custom statuses once their expiry passes
+setInterval(expireUserStatuses, PRESENCE.STATUS_EXPIRY_CHECK_INTERVAL_MS);
+
+// Send scheduled messages once they are due
+setInterval(deliverDueScheduledMessages, SCHEDULED_MESSAGE_CHECK_INTERVAL_MS);
+
+// Remove disappearing messages once their timer runs out
+setInterval(deleteExpiredMessages, DISAPPEARING_MESSAGES.CLEANUP_INTERVAL_MS);
+
+// Fetch previews for links in new and edited messages
+setInterval(processLinkPreviewJobs, LINK_PREVIEW_CHECK_INTERVAL_MS);
 
 // Error handling
 app.use(notFoundHandler);
@@ -133,6 +167,7 @@ const gracefulShutdown = (signal: string) => {
     }
 
     try {
+      await closeRedisConnections();
       await prisma.$disconnect();
       logger.info('Database connection closed.');
       process.exit(0);
@@ -146,10 +181,25 @@ const gracefulShutdown = (signal: string) => {
 process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
-// Start server
-server.listen(PORT, () => {
-  logger.info(`Server running on port ${PORT}`);
-  logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+// Start server, sharing rooms with other instances through Redis when configured
+const startServer = async () => {
+  if (isRedisEnabled()) {
+    const { pubClient, subClient } = await createRedisPubSub();
+    io.adapter(createAdapter(pubClient, subClient));
+    logger.info('Socket.io Redis adapter enabled');
+  }
+
+  await initPresenceStore();
+
+  server.listen(PORT, () => {
+    logger.info(`Server running on port ${PORT}`);
+    logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  });
+};
+
+startServer().catch((error) => {
+  logger.error('Failed to start server:', error);
+  process.exit(1);
 });
 
 export { app, server, io };
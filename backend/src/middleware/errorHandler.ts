@@ -6,6 +6,13 @@ export interface AppError extends Error {
   isOperational?: boolean;
 }
 
+export const createAppError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  error.isOperational = true;
+  return error;
+};
+
 export const errorHandler = (
   err: AppError,
   req: Request,
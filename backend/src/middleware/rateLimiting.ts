@@ -1,4 +1,5 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { MemoryStore } from 'express-rate-limit';
+import type { Request, Response, NextFunction } from 'express';
 
 // General API rate limiting
 export const generalLimiter = rateLimit({
@@ -39,13 +40,40 @@ export const uploadLimiter = rateLimit({
 });
 
 // Rate limiting for sending messages
+const MESSAGE_LIMIT = 30; // 30 messages per minute
+const messageLimitStore = new MemoryStore();
+const messageLimitResponse = {
+  success: false,
+  error: 'Too many messages, please slow down.',
+};
+
 export const messageLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
-  max: 30, // 30 messages per minute
-  message: {
-    success: false,
-    error: 'Too many messages, please slow down.',
-  },
+  max: MESSAGE_LIMIT,
+  store: messageLimitStore,
+  message: messageLimitResponse,
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+// A request that sends several messages at once uses up the message limit once per message.
+// Goes after messageLimiter, which has already counted the request itself.
+export const chargeMessageLimit = (countMessages: (req: Request) => number) => (
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const count = countMessages(req);
+      let totalHits = 0;
+      for (let charged = 1; charged < count; charged++) {
+        ({ totalHits } = await messageLimitStore.increment(req.ip!));
+      }
+
+      if (totalHits > MESSAGE_LIMIT) {
+        return res.status(429).json(messageLimitResponse);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -7,7 +7,10 @@ import { authenticateToken } from '../middleware/auth';
 import { authLimiter } from '../middleware/rateLimiting';
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
-import type { RegisterRequest, LoginRequest, RefreshTokenRequest, UserProfile } from '@toff/shared';
+import { statusSelect, formatUserStatus, announceStatusChange } from '../utils/status';
+import { privacySelect, formatPrivacySettings } from '../utils/privacy';
+import { VALIDATION } from '@toff/shared';
+import type { RegisterRequest, LoginRequest, RefreshTokenRequest, UserProfile, UpdateProfileRequest, UpdatePrivacyRequest } from '@toff/shared';
 
 const router = express.Router();
 
@@ -316,6 +319,8 @@ router.get('/profile',
         avatarUrl: true,
         isOnline: true,
         lastSeen: true,
+        ...statusSelect,
+        ...privacySelect,
         createdAt: true,
       },
     });
@@ -329,7 +334,11 @@ router.get('/profile',
 
     res.json({
       success: true,
-      data: user,
+      data: {
+        ...user,
+        ...formatUserStatus(user),
+        ...formatPrivacySettings(user),
+      },
     });
   })
 );
@@ -340,15 +349,43 @@ router.put('/profile',
   validate([
     body('displayName').optional().isLength({ min: 1, max: 50 }).trim(),
     body('avatarUrl').optional().isURL(),
+    body('status').optional().isIn([...VALIDATION.STATUS.VALUES]).withMessage('Invalid status'),
+    body('statusMessage')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ max: VALIDATION.STATUS.MESSAGE_MAX_LENGTH })
+      .withMessage(`Status message must be at most ${VALIDATION.STATUS.MESSAGE_MAX_LENGTH} characters`),
+    body('statusExpiresAt')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Status expiry must be an ISO 8601 date')
+      .custom((value: string) => new Date(value) > new Date())
+      .withMessage('Status expiry must be in the future'),
   ]),
   handleValidationErrors,
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const userId = req.user!.userId;
-    const { displayName, avatarUrl } = req.body;
+    const { displayName, avatarUrl, status, statusMessage, statusExpiresAt } = req.body as UpdateProfileRequest;
 
     const updateData: any = {};
     if (displayName !== undefined) updateData.displayName = displayName;
     if (avatarUrl !== undefined) updateData.avatarUrl = avatarUrl;
+    if (status !== undefined) updateData.status = status.toUpperCase();
+    if (statusMessage !== undefined) updateData.statusMessage = statusMessage || null;
+    if (statusExpiresAt !== undefined) updateData.statusExpiresAt = statusExpiresAt ? new Date(statusExpiresAt) : null;
+
+    const previous = await prisma.user.findUnique({
+      where: { id: userId },
+      select: statusSelect,
+    });
+
+    if (!previous) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
 
     const user = await prisma.user.update({
       where: { id: userId },
@@ -359,12 +396,49 @@ router.put('/profile',
         username: true,
         displayName: true,
         avatarUrl: true,
+        ...statusSelect,
+      },
+    });
+
+    await announceStatusChange(previous, user);
+
+    res.json({
+      success: true,
+      data: {
+        ...user,
+        ...formatUserStatus(user),
       },
     });
+  })
+);
+
+// Update last-seen and read-receipt privacy
+router.put('/privacy',
+  authenticateToken,
+  validate([
+    body('lastSeenVisibility').optional().isIn([...VALIDATION.PRIVACY.LAST_SEEN_VISIBILITY_VALUES]).withMessage('Last seen visibility must be everyone, friends or nobody'),
+    body('readReceiptsEnabled').optional().isBoolean().withMessage('Read receipts setting must be a boolean'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { lastSeenVisibility, readReceiptsEnabled } = req.body as UpdatePrivacyRequest;
+
+    const updateData: any = {};
+    if (lastSeenVisibility !== undefined) updateData.lastSeenVisibility = lastSeenVisibility.toUpperCase();
+    if (readReceiptsEnabled !== undefined) updateData.readReceiptsEnabled = readReceiptsEnabled;
+
+    const settings = await prisma.user.update({
+      where: { id: userId },
+      data: updateData,
+      select: privacySelect,
+    });
+
+    logger.info('Privacy settings updated:', { userId, ...updateData });
 
     res.json({
       success: true,
-      data: user,
+      data: formatPrivacySettings(settings),
     });
   })
 );
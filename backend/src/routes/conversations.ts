@@ -3,10 +3,70 @@ import { body, param, query } from 'express-validator';
 import { prisma } from '../config/database';
 import { validate, handleValidationErrors } from '../middleware/validation';
 import { authenticateToken } from '../middleware/auth';
-import { messageLimiter } from '../middleware/rateLimiting';
+import { messageLimiter, chargeMessageLimit } from '../middleware/rateLimiting';
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
-import type { Message, Conversation, SendMessageRequest } from '@toff/shared';
+import { emitToUsers, emitToConversation, removeUsersFromConversationRoom } from '../socket/emitter';
+import {
+  participantSelect,
+  memberInclude,
+  findMemberConversation,
+  getMembership,
+  getMemberIds,
+  canManageGroup,
+  formatMember,
+  formatConversation,
+  settingsInclude,
+  formatConversationSettings,
+  compareConversations,
+  draftInclude,
+} from '../utils/conversations';
+import {
+  editMessage,
+  getMessageRevisions,
+  deleteMessageForMe,
+  deleteMessageForEveryone,
+  messageInclude,
+  formatMessage,
+  sendMessage,
+  saveDraft,
+  toggleReaction,
+  removeReaction,
+  markMessagesDelivered,
+  markMessagesRead,
+  resolveMessageCursor,
+  notExpiredWhere,
+  postSystemMessage,
+  forwardMessages,
+} from '../utils/messages';
+import { isMessageCursor, messageCursorWhere } from '../utils/messageCursors';
+import { getPinnedMessages } from '../utils/pinnedMessages';
+import { getStarredMessageIds } from '../utils/starredMessages';
+import {
+  scheduleMessage,
+  getScheduledMessages,
+  updateScheduledMessage,
+  cancelScheduledMessage,
+} from '../utils/scheduledMessages';
+import { getPrivacyViewer, getPrivacySettings, readReceiptsVisibleWhere, redactReadState } from '../utils/privacy';
+import { VALIDATION, DISAPPEARING_MESSAGES } from '@toff/shared';
+import type {
+  Message,
+  Conversation,
+  SendMessageRequest,
+  EditMessageRequest,
+  DeleteMessageScope,
+  ReactionRequest,
+  CreateGroupRequest,
+  UpdateGroupRequest,
+  UpdateConversationSettingsRequest,
+  ReorderPinnedRequest,
+  UpdateDraftRequest,
+  UpdateDisappearingTimerRequest,
+  CreateScheduledMessageRequest,
+  UpdateScheduledMessageRequest,
+  ForwardMessagesRequest,
+} from '@toff/shared';
 
 const router = express.Router();
 
@@ -15,38 +75,19 @@ router.get('/',
   authenticateToken,
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const userId = req.user!.userId;
+    const viewer = await getPrivacyViewer(userId);
 
     const conversations = await prisma.conversation.findMany({
       where: {
-        OR: [
-          { participantOne: userId },
-          { participantTwo: userId },
-        ],
+        members: { some: { userId } },
       },
       include: {
-        participantOneUser: {
-          select: {
-            id: true,
-            email: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-            isOnline: true,
-            lastSeen: true,
-          },
-        },
-        participantTwoUser: {
-          select: {
-            id: true,
-            email: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-            isOnline: true,
-            lastSeen: true,
-          },
+        members: {
+          include: memberInclude,
+          orderBy: { joinedAt: 'asc' },
         },
         messages: {
+          where: notExpiredWhere(),
           orderBy: { createdAt: 'desc' },
           take: 1,
           include: {
@@ -63,35 +104,25 @@ router.get('/',
             messages: {
               where: {
                 senderId: { not: userId },
-                isRead: false,
+                readReceipts: { none: { userId } },
+                isDeleted: false,
+                ...notExpiredWhere(),
               },
             },
           },
         },
+        ...settingsInclude(userId),
+        ...draftInclude(userId),
       },
       orderBy: {
         lastMessageAt: 'desc',
       },
     });
 
-    // Format conversations with other participant info
-    const formattedConversations = conversations.map(conv => {
-      const otherParticipant = conv.participantOne === userId 
-        ? conv.participantTwoUser 
-        : conv.participantOneUser;
-      
-      return {
-        id: conv.id,
-        participantOne: conv.participantOne,
-        participantTwo: conv.participantTwo,
-        createdAt: conv.createdAt,
-        updatedAt: conv.updatedAt,
-        lastMessageAt: conv.lastMessageAt,
-        otherParticipant,
-        lastMessage: conv.messages[0] || null,
-        unreadCount: conv._count.messages,
-      };
-    });
+    // Format conversations with other participant and member info; pinned ones go first
+    const formattedConversations = conversations
+      .map(conv => formatConversation(conv, userId, viewer))
+      .sort(compareConversations);
 
     res.json({
       success: true,
@@ -121,15 +152,7 @@ router.post('/',
     // Check if participant exists
     const participant = await prisma.user.findUnique({
       where: { id: participantId },
-      select: {
-        id: true,
-        email: true,
-        username: true,
-        displayName: true,
-        avatarUrl: true,
-        isOnline: true,
-        lastSeen: true,
-      },
+      select: participantSelect,
     });
 
     if (!participant) {
@@ -139,35 +162,46 @@ router.post('/',
       });
     }
 
+    const conversationInclude = {
+      members: {
+        include: memberInclude,
+        orderBy: { joinedAt: 'asc' as const },
+      },
+      messages: {
+        orderBy: { createdAt: 'desc' as const },
+        take: 1,
+      },
+      ...settingsInclude(userId),
+      ...draftInclude(userId),
+    };
+
     // Check if conversation already exists
     let conversation = await prisma.conversation.findFirst({
       where: {
+        type: 'DIRECT',
         OR: [
           { participantOne: userId, participantTwo: participantId },
           { participantOne: participantId, participantTwo: userId },
         ],
       },
-      include: {
-        messages: {
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        },
-      },
+      include: conversationInclude,
     });
 
     if (!conversation) {
       // Create new conversation
       conversation = await prisma.conversation.create({
         data: {
+          type: 'DIRECT',
           participantOne: userId,
           participantTwo: participantId,
-        },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'desc' },
-            take: 1,
+          members: {
+            create: [
+              { userId },
+              { userId: participantId },
+            ],
           },
         },
+        include: conversationInclude,
       });
 
       logger.info('New conversation created:', {
@@ -178,275 +212,1178 @@ router.post('/',
 
     res.json({
       success: true,
+      data: formatConversation(conversation, userId, await getPrivacyViewer(userId)),
+    });
+  })
+);
+
+// Create group conversation
+router.post('/groups',
+  authenticateToken,
+  validate([
+    body('name').isString().trim().isLength({ min: 1, max: VALIDATION.GROUP.NAME_MAX_LENGTH }).withMessage('Group name must be 1-50 characters'),
+    body('memberIds').isArray({ min: 1, max: VALIDATION.GROUP.MAX_MEMBERS - 1 }).withMessage('Groups need at least one other member'),
+    body('memberIds.*').isUUID().withMessage('Invalid member ID'),
+    body('avatarUrl').optional().isURL().withMessage('Invalid avatar URL'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { name, memberIds, avatarUrl }: CreateGroupRequest = req.body;
+
+    const otherMemberIds = Array.from(new Set(memberIds)).filter(id => id !== userId);
+
+    if (otherMemberIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Groups need at least one other member',
+      });
+    }
+
+    // Check that every member exists
+    const existingUsers = await prisma.user.count({
+      where: { id: { in: otherMemberIds } },
+    });
+
+    if (existingUsers !== otherMemberIds.length) {
+      return res.status(404).json({
+        success: false,
+        error: 'One or more users not found',
+      });
+    }
+
+    const conversation = await prisma.conversation.create({
       data: {
-        ...conversation,
-        otherParticipant: participant,
-        lastMessage: conversation.messages[0] || null,
-        unreadCount: 0,
+        type: 'GROUP',
+        name,
+        avatarUrl: avatarUrl || null,
+        lastMessageAt: new Date(),
+        members: {
+          create: [
+            { userId, role: 'OWNER' },
+            ...otherMemberIds.map(memberId => ({ userId: memberId })),
+          ],
+        },
       },
+      include: {
+        members: {
+          include: memberInclude,
+          orderBy: { joinedAt: 'asc' },
+        },
+      },
+    });
+
+    const formattedConversation = formatConversation(conversation, userId);
+
+    // Let every member see the new group without reloading
+    emitToUsers([userId, ...otherMemberIds], 'conversation_created', formattedConversation);
+
+    logger.info('Group conversation created:', {
+      conversationId: conversation.id,
+      ownerId: userId,
+      memberCount: otherMemberIds.length + 1,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: formattedConversation,
     });
   })
 );
 
-// Get conversation messages
-router.get('/:id/messages',
+// Reorder pinned conversations; the list must contain every pinned conversation once
+router.put('/pins',
+  authenticateToken,
+  validate([
+    body('conversationIds').isArray({ max: VALIDATION.CONVERSATION.MAX_PINNED }).withMessage(`At most ${VALIDATION.CONVERSATION.MAX_PINNED} conversations can be pinned`),
+    body('conversationIds.*').isUUID().withMessage('Invalid conversation ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { conversationIds }: ReorderPinnedRequest = req.body;
+
+    const pinned = await prisma.conversationSetting.findMany({
+      where: { userId, pinOrder: { not: null } },
+      select: { conversationId: true },
+    });
+
+    const isSamePinnedSet = conversationIds.length === pinned.length &&
+      new Set(conversationIds).size === conversationIds.length &&
+      pinned.every(setting => conversationIds.includes(setting.conversationId));
+
+    if (!isSamePinnedSet) {
+      return res.status(400).json({
+        success: false,
+        error: 'Pinned order must list every pinned conversation exactly once',
+      });
+    }
+
+    const settings = await prisma.$transaction(conversationIds.map((conversationId, index) =>
+      prisma.conversationSetting.update({
+        where: { conversationId_userId: { conversationId, userId } },
+        data: { pinOrder: index },
+      })
+    ));
+
+    const formattedSettings = settings.map(setting => formatConversationSettings(setting.conversationId, setting));
+
+    // Keep the user's other devices in the same order
+    formattedSettings.forEach(setting => emitToUsers([userId], 'conversation_settings_updated', setting));
+
+    res.json({
+      success: true,
+      data: formattedSettings,
+    });
+  })
+);
+
+// Rename group or change its avatar
+router.put('/:id',
   authenticateToken,
   validate([
     param('id').isUUID().withMessage('Invalid conversation ID'),
-    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
-    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    body('name').optional().isString().trim().isLength({ min: 1, max: VALIDATION.GROUP.NAME_MAX_LENGTH }).withMessage('Group name must be 1-50 characters'),
+    body('avatarUrl').optional({ values: 'null' }).isURL().withMessage('Invalid avatar URL'),
   ]),
   handleValidationErrors,
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const userId = req.user!.userId;
     const { id } = req.params;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const { name, avatarUrl }: UpdateGroupRequest = req.body;
 
-    // Verify user is participant in conversation
-    const conversation = await prisma.conversation.findFirst({
-      where: {
-        id,
-        OR: [
-          { participantOne: userId },
-          { participantTwo: userId },
-        ],
-      },
+    const membership = await prisma.conversationMember.findUnique({
+      where: { conversationId_userId: { conversationId: id, userId } },
+      include: { conversation: true },
     });
 
-    if (!conversation) {
+    if (!membership || membership.conversation.type !== 'GROUP') {
       return res.status(404).json({
         success: false,
-        error: 'Conversation not found',
+        error: 'Group not found',
       });
     }
 
-    // Get messages with pagination
-    const messages = await prisma.message.findMany({
-      where: { conversationId: id },
+    if (!canManageGroup(membership.role)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only group owners and admins can edit the group',
+      });
+    }
+
+    const updateData: any = {};
+    if (name !== undefined) updateData.name = name;
+    if (avatarUrl !== undefined) updateData.avatarUrl = avatarUrl;
+
+    const conversation = await prisma.conversation.update({
+      where: { id },
+      data: updateData,
       include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-          },
-        },
-        readReceipts: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                displayName: true,
-              },
-            },
-          },
+        members: {
+          include: memberInclude,
+          orderBy: { joinedAt: 'asc' },
         },
       },
-      orderBy: { createdAt: 'desc' },
-      skip: (page - 1) * limit,
-      take: limit,
     });
 
-    // Get total count for pagination
-    const totalMessages = await prisma.message.count({
-      where: { conversationId: id },
-    });
+    const formattedConversation = formatConversation(conversation, userId);
+
+    emitToUsers(conversation.members.map(member => member.userId), 'conversation_updated', formattedConversation);
 
-    const hasMore = page * limit < totalMessages;
+    logger.info('Group updated:', { conversationId: id, updatedBy: userId });
 
     res.json({
       success: true,
-      data: {
-        messages: messages.reverse(), // Return in chronological order
-        pagination: {
-          page,
-          limit,
-          total: totalMessages,
-          hasMore,
-        },
-      },
+      data: formattedConversation,
     });
   })
 );
 
-// Send message
-router.post('/:id/messages',
-  messageLimiter,
+// Add members to a group
+router.post('/:id/members',
   authenticateToken,
   validate([
     param('id').isUUID().withMessage('Invalid conversation ID'),
-    body('content').optional().isString().isLength({ max: 2000 }).withMessage('Message content too long'),
-    body('messageType').isIn(['text', 'image', 'pdf', 'txt', 'other_file']).withMessage('Invalid message type'),
-    body('fileUrl').optional().isURL().withMessage('Invalid file URL'),
-    body('fileName').optional().isString().isLength({ max: 255 }).withMessage('File name too long'),
-    body('fileSize').optional().isInt({ min: 0 }).withMessage('Invalid file size'),
-    body('fileMimeType').optional().isString().withMessage('Invalid file MIME type'),
+    body('userIds').isArray({ min: 1 }).withMessage('At least one user is required'),
+    body('userIds.*').isUUID().withMessage('Invalid user ID'),
   ]),
   handleValidationErrors,
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const userId = req.user!.userId;
     const { id } = req.params;
-    const messageData: SendMessageRequest = req.body;
+    const userIds: string[] = Array.from(new Set(req.body.userIds as string[]));
 
-    // Verify user is participant in conversation
-    const conversation = await prisma.conversation.findFirst({
-      where: {
-        id,
-        OR: [
-          { participantOne: userId },
-          { participantTwo: userId },
-        ],
-      },
+    const membership = await prisma.conversationMember.findUnique({
+      where: { conversationId_userId: { conversationId: id, userId } },
+      include: { conversation: true },
     });
 
-    if (!conversation) {
+    if (!membership || membership.conversation.type !== 'GROUP') {
       return res.status(404).json({
         success: false,
-        error: 'Conversation not found',
+        error: 'Group not found',
+      });
+    }
+
+    if (!canManageGroup(membership.role)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only group owners and admins can add members',
       });
     }
 
-    // Validate message content
-    if (messageData.messageType === 'text' && !messageData.content) {
+    const existingMemberIds = await getMemberIds(id);
+    const newMemberIds = userIds.filter(memberId => !existingMemberIds.includes(memberId));
+
+    if (newMemberIds.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'Text messages must have content',
+        error: 'Users are already members of this group',
       });
     }
 
-    if (messageData.messageType !== 'text' && !messageData.fileUrl) {
+    if (existingMemberIds.length + newMemberIds.length > VALIDATION.GROUP.MAX_MEMBERS) {
       return res.status(400).json({
         success: false,
-        error: 'File messages must have a file URL',
+        error: `Groups are limited to ${VALIDATION.GROUP.MAX_MEMBERS} members`,
       });
     }
 
-    // Create message
-    const message = await prisma.message.create({
-      data: {
-        conversationId: id,
-        senderId: userId,
-        content: messageData.content || null,
-        messageType: messageData.messageType.toUpperCase() as any,
-        fileUrl: messageData.fileUrl || null,
-        fileName: messageData.fileName || null,
-        fileSize: messageData.fileSize || null,
-        fileMimeType: messageData.fileMimeType || null,
-        deliveredAt: new Date(),
-      },
+    const existingUsers = await prisma.user.count({
+      where: { id: { in: newMemberIds } },
+    });
+
+    if (existingUsers !== newMemberIds.length) {
+      return res.status(404).json({
+        success: false,
+        error: 'One or more users not found',
+      });
+    }
+
+    await prisma.conversationMember.createMany({
+      data: newMemberIds.map(memberId => ({ conversationId: id, userId: memberId })),
+      skipDuplicates: true,
+    });
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id },
       include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-          },
+        members: {
+          include: memberInclude,
+          orderBy: { joinedAt: 'asc' },
         },
       },
     });
 
-    // Update conversation last message time
-    await prisma.conversation.update({
-      where: { id },
-      data: { lastMessageAt: new Date() },
+    const addedMembers = conversation!.members
+      .filter(member => newMemberIds.includes(member.userId))
+      .map(member => formatMember(member));
+
+    // Existing members get the new member list, new members get the whole conversation
+    emitToUsers(existingMemberIds, 'members_added', {
+      conversationId: id,
+      members: addedMembers,
+      addedBy: userId,
     });
+    emitToUsers(newMemberIds, 'conversation_created', formatConversation(conversation, userId));
 
-    logger.info('Message sent:', {
-      messageId: message.id,
+    logger.info('Group members added:', {
       conversationId: id,
-      senderId: userId,
-      messageType: message.messageType,
+      addedBy: userId,
+      memberIds: newMemberIds,
     });
 
     res.status(201).json({
       success: true,
-      data: message,
+      data: addedMembers,
     });
   })
 );
 
-// Mark message as read
-router.put('/messages/:messageId/read',
+// Remove a member from a group, or leave it
+router.delete('/:id/members/:userId',
   authenticateToken,
   validate([
-    param('messageId').isUUID().withMessage('Invalid message ID'),
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
   ]),
   handleValidationErrors,
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const userId = req.user!.userId;
-    const { messageId } = req.params;
+    const { id, userId: targetUserId } = req.params;
+    const isLeaving = targetUserId === userId;
 
-    // Find message and verify user is participant
-    const message = await prisma.message.findFirst({
-      where: { id: messageId },
-      include: {
-        conversation: true,
-      },
+    const membership = await prisma.conversationMember.findUnique({
+      where: { conversationId_userId: { conversationId: id, userId } },
+      include: { conversation: true },
     });
 
-    if (!message) {
+    if (!membership || membership.conversation.type !== 'GROUP') {
       return res.status(404).json({
         success: false,
-        error: 'Message not found',
+        error: 'Group not found',
       });
     }
 
-    // Verify user is participant and not the sender
-    const isParticipant = message.conversation.participantOne === userId || 
-                         message.conversation.participantTwo === userId;
-    
-    if (!isParticipant) {
-      return res.status(403).json({
+    const targetMembership = isLeaving ? membership : await getMembership(id, targetUserId);
+
+    if (!targetMembership) {
+      return res.status(404).json({
         success: false,
-        error: 'Not authorized to read this message',
+        error: 'Member not found',
       });
     }
 
-    if (message.senderId === userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Cannot mark your own message as read',
-      });
+    if (!isLeaving) {
+      // Owners can remove anyone, admins can only remove regular members
+      const canRemove = membership.role === 'OWNER' ||
+        (membership.role === 'ADMIN' && targetMembership.role === 'MEMBER');
+
+      if (!canRemove) {
+        return res.status(403).json({
+          success: false,
+          error: 'Not authorized to remove this member',
+        });
+      }
     }
 
-    // Update message read status
-    await prisma.message.update({
-      where: { id: messageId },
-      data: {
-        isRead: true,
-        readAt: new Date(),
-      },
+    const remainingMemberIds = await prisma.$transaction(async (tx) => {
+      // Serializes concurrent leaves, so the last one out always sees an empty group
+      await tx.$queryRaw`SELECT id FROM conversations WHERE id = ${id} FOR UPDATE`;
+
+      await tx.conversationMember.delete({
+        where: { id: targetMembership.id },
+      });
+
+      await tx.conversationSetting.deleteMany({
+        where: { conversationId: id, userId: targetUserId },
+      });
+
+      await tx.conversationDraft.deleteMany({
+        where: { conversationId: id, userId: targetUserId },
+      });
+
+      await tx.starredMessage.deleteMany({
+        where: { userId: targetUserId, message: { conversationId: id } },
+      });
+
+      // Hand ownership to the longest-standing admin, or member, when the owner leaves
+      if (targetMembership.role === 'OWNER') {
+        const successor = await tx.conversationMember.findFirst({
+          where: { conversationId: id },
+          orderBy: [{ role: 'asc' }, { joinedAt: 'asc' }],
+        });
+
+        if (successor) {
+          await tx.conversationMember.update({
+            where: { id: successor.id },
+            data: { role: 'OWNER' },
+          });
+        }
+      }
+
+      const remaining = await tx.conversationMember.findMany({
+        where: { conversationId: id },
+        select: { userId: true },
+      });
+
+      // Delete the group once its last member leaves
+      if (remaining.length === 0) {
+        await tx.conversation.delete({ where: { id } });
+      }
+
+      return remaining.map(member => member.userId);
     });
 
-    // Create read receipt
-    await prisma.messageReadReceipt.upsert({
-      where: {
-        messageId_userId: {
-          messageId,
-          userId,
-        },
-      },
-      update: {
-        readAt: new Date(),
-      },
-      create: {
-        messageId,
-        userId,
-        readAt: new Date(),
-      },
+    removeUsersFromConversationRoom([targetUserId], id);
+    emitToUsers([...remainingMemberIds, targetUserId], 'member_removed', {
+      conversationId: id,
+      userId: targetUserId,
+      removedBy: userId,
     });
 
-    logger.info('Message marked as read:', {
-      messageId,
-      readerId: userId,
+    if (targetMembership.role === 'OWNER' && remainingMemberIds.length > 0) {
+      const newOwner = await prisma.conversationMember.findFirst({
+        where: { conversationId: id, role: 'OWNER' },
+        include: memberInclude,
+      });
+
+      if (newOwner) {
+        emitToUsers(remainingMemberIds, 'member_role_updated', {
+          conversationId: id,
+          member: formatMember(newOwner),
+        });
+      }
+    }
+
+    logger.info(isLeaving ? 'Member left group:' : 'Member removed from group:', {
+      conversationId: id,
+      userId: targetUserId,
+      removedBy: userId,
     });
 
     res.json({
       success: true,
-      message: 'Message marked as read',
+      message: isLeaving ? 'Left group' : 'Member removed',
+    });
+  })
+);
+
+// Change a member's role
+router.put('/:id/members/:userId/role',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    body('role').isIn(['admin', 'member']).withMessage('Role must be admin or member'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id, userId: targetUserId } = req.params;
+    const { role } = req.body;
+
+    const membership = await prisma.conversationMember.findUnique({
+      where: { conversationId_userId: { conversationId: id, userId } },
+      include: { conversation: true },
+    });
+
+    if (!membership || membership.conversation.type !== 'GROUP') {
+      return res.status(404).json({
+        success: false,
+        error: 'Group not found',
+      });
+    }
+
+    if (membership.role !== 'OWNER') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the group owner can change roles',
+      });
+    }
+
+    if (targetUserId === userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot change your own role',
+      });
+    }
+
+    const targetMembership = await getMembership(id, targetUserId);
+
+    if (!targetMembership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found',
+      });
+    }
+
+    const updatedMember = await prisma.conversationMember.update({
+      where: { id: targetMembership.id },
+      data: { role: role.toUpperCase() as 'ADMIN' | 'MEMBER' },
+      include: memberInclude,
+    });
+
+    const formattedMember = formatMember(updatedMember);
+
+    emitToUsers(await getMemberIds(id), 'member_role_updated', {
+      conversationId: id,
+      member: formattedMember,
+    });
+
+    logger.info('Group member role updated:', {
+      conversationId: id,
+      userId: targetUserId,
+      role,
+      updatedBy: userId,
+    });
+
+    res.json({
+      success: true,
+      data: formattedMember,
+    });
+  })
+);
+
+// Mute, archive or pin a conversation for the current user
+router.put('/:id/settings',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    body('mutedUntil').optional({ values: 'null' }).isISO8601().withMessage('Muted until must be an ISO 8601 date'),
+    body('archived').optional().isBoolean().withMessage('Archived must be a boolean'),
+    body('pinned').optional().isBoolean().withMessage('Pinned must be a boolean'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { mutedUntil, archived, pinned }: UpdateConversationSettingsRequest = req.body;
+
+    if (archived && pinned) {
+      return res.status(400).json({
+        success: false,
+        error: 'A conversation cannot be archived and pinned at once',
+      });
+    }
+
+    const membership = await getMembership(id, userId);
+
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    const current = await prisma.conversationSetting.findUnique({
+      where: { conversationId_userId: { conversationId: id, userId } },
+    });
+
+    const updateData: any = {};
+    if (mutedUntil !== undefined) updateData.mutedUntil = mutedUntil ? new Date(mutedUntil) : null;
+
+    // Archiving unpins, and pinning brings a conversation out of the archive
+    if (archived !== undefined) {
+      updateData.archivedAt = archived ? current?.archivedAt ?? new Date() : null;
+      if (archived) updateData.pinOrder = null;
+    }
+
+    if (pinned === false) {
+      updateData.pinOrder = null;
+    } else if (pinned && (current?.pinOrder ?? null) === null) {
+      const pinnedSettings = await prisma.conversationSetting.findMany({
+        where: { userId, pinOrder: { not: null } },
+        select: { pinOrder: true },
+      });
+
+      if (pinnedSettings.length >= VALIDATION.CONVERSATION.MAX_PINNED) {
+        return res.status(400).json({
+          success: false,
+          error: `At most ${VALIDATION.CONVERSATION.MAX_PINNED} conversations can be pinned`,
+        });
+      }
+
+      // Newly pinned conversations go to the top
+      const topOrder = Math.min(0, ...pinnedSettings.map(setting => setting.pinOrder!));
+      updateData.pinOrder = pinnedSettings.length > 0 ? topOrder - 1 : 0;
+      updateData.archivedAt = null;
+    }
+
+    const setting = await prisma.conversationSetting.upsert({
+      where: { conversationId_userId: { conversationId: id, userId } },
+      update: updateData,
+      create: { conversationId: id, userId, ...updateData },
+    });
+
+    const formattedSetting = formatConversationSettings(id, setting);
+
+    // Keep the user's other devices in sync
+    emitToUsers([userId], 'conversation_settings_updated', formattedSetting);
+
+    res.json({
+      success: true,
+      data: formattedSetting,
+    });
+  })
+);
+
+// Set how long new messages last; any member can change it and everyone sees a notice
+router.put('/:id/disappearing',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    body('timer').isIn(Object.keys(DISAPPEARING_MESSAGES.TIMERS)).withMessage('Invalid disappearing messages timer'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { timer }: UpdateDisappearingTimerRequest = req.body;
+
+    const current = await findMemberConversation(id, userId);
+
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    const messageTtlSeconds = DISAPPEARING_MESSAGES.TIMERS[timer];
+
+    const conversation = await prisma.conversation.update({
+      where: { id },
+      data: { messageTtlSeconds },
+      include: {
+        members: {
+          include: memberInclude,
+          orderBy: { joinedAt: 'asc' },
+        },
+      },
+    });
+
+    const formattedConversation = formatConversation(conversation, userId);
+
+    // Only an actual change is announced
+    if (current.messageTtlSeconds !== messageTtlSeconds) {
+      const actor = conversation.members.find(member => member.userId === userId)!.user;
+      const notice = messageTtlSeconds
+        ? `${actor.displayName} set disappearing messages to ${DISAPPEARING_MESSAGES.LABELS[timer]}`
+        : `${actor.displayName} turned off disappearing messages`;
+
+      await postSystemMessage(id, userId, notice);
+      emitToUsers(conversation.members.map(member => member.userId), 'conversation_updated', formattedConversation);
+
+      logger.info('Disappearing messages timer changed:', { conversationId: id, timer, changedBy: userId });
+    }
+
+    res.json({
+      success: true,
+      data: formattedConversation,
+    });
+  })
+);
+
+// Save or clear the current user's draft; sockets usually send update_draft instead
+router.put('/:id/draft',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    body('content').isString().isLength({ max: VALIDATION.MESSAGE.MAX_LENGTH }).withMessage('Draft must be at most 2000 characters'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { content }: UpdateDraftRequest = req.body;
+
+    const draft = await saveDraft(id, userId, content);
+
+    // Pick the draft up on the user's other devices
+    emitToUsers([userId], 'draft_updated', draft);
+
+    res.json({
+      success: true,
+      data: draft,
+    });
+  })
+);
+
+// Messages pinned in a conversation; pinning itself goes through the pin_message socket event
+router.get('/:id/pins',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    res.json({
+      success: true,
+      data: await getPinnedMessages(id, userId),
+    });
+  })
+);
+
+// Schedule a message to be sent later
+router.post('/:id/scheduled',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    body('content').optional().isString().isLength({ max: VALIDATION.MESSAGE.MAX_LENGTH }).withMessage('Message content too long'),
+    body('messageType').isIn(['text', 'image', 'pdf', 'txt', 'other_file']).withMessage('Invalid message type'),
+    body('fileUrl').optional().isURL().withMessage('Invalid file URL'),
+    body('fileName').optional().isString().isLength({ max: 255 }).withMessage('File name too long'),
+    body('fileSize').optional().isInt({ min: 0 }).withMessage('Invalid file size'),
+    body('fileMimeType').optional().isString().withMessage('Invalid file MIME type'),
+    body('replyToId').optional().isUUID().withMessage('Invalid reply message ID'),
+    body('sendAt').isISO8601().withMessage('Send time must be an ISO 8601 date'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const data: CreateScheduledMessageRequest = req.body;
+
+    const scheduled = await scheduleMessage(id, userId, data);
+
+    logger.info('Message scheduled:', {
+      scheduledId: scheduled.id,
+      conversationId: id,
+      senderId: userId,
+      sendAt: scheduled.sendAt,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: scheduled,
+    });
+  })
+);
+
+// List the user's pending scheduled messages in a conversation
+router.get('/:id/scheduled',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    res.json({
+      success: true,
+      data: await getScheduledMessages(id, userId),
+    });
+  })
+);
+
+// Change the text or send time of a pending scheduled message
+router.put('/scheduled/:scheduledId',
+  authenticateToken,
+  validate([
+    param('scheduledId').isUUID().withMessage('Invalid scheduled message ID'),
+    body('content').optional().isString().isLength({ max: VALIDATION.MESSAGE.MAX_LENGTH }).withMessage('Message content too long'),
+    body('sendAt').optional().isISO8601().withMessage('Send time must be an ISO 8601 date'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { scheduledId } = req.params;
+    const data: UpdateScheduledMessageRequest = req.body;
+
+    const scheduled = await updateScheduledMessage(scheduledId, userId, data);
+
+    res.json({
+      success: true,
+      data: scheduled,
+    });
+  })
+);
+
+// Cancel a pending scheduled message
+router.delete('/scheduled/:scheduledId',
+  authenticateToken,
+  validate([
+    param('scheduledId').isUUID().withMessage('Invalid scheduled message ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { scheduledId } = req.params;
+
+    await cancelScheduledMessage(scheduledId, userId);
+
+    logger.info('Scheduled message cancelled:', {
+      scheduledId,
+      senderId: userId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Scheduled message cancelled',
+    });
+  })
+);
+
+// Get conversation messages
+router.get('/:id/messages',
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    query('before').optional().custom(isMessageCursor).withMessage('Before must be a message ID or ISO 8601 date'),
+    query('after').optional().custom(isMessageCursor).withMessage('After must be a message ID or ISO 8601 date'),
+    query('after').if(query('before').exists()).not().exists().withMessage('Use either before or after, not both'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { before, after } = req.query as { before?: string; after?: string };
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    // Verify user is participant in conversation
+    const conversation = await findMemberConversation(id, userId);
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    // Without a cursor the latest messages are returned; `after` walks forward, `before` walks back
+    const direction = after ? 'after' : 'before';
+    const cursor = before || after
+      ? await resolveMessageCursor(id, (before || after)!)
+      : null;
+    const order = direction === 'after' ? 'asc' : 'desc';
+    const { readReceiptsEnabled } = await getPrivacySettings(userId);
+
+    // Messages the user deleted for themselves are left out; messages deleted for everyone come back as tombstones
+    const messages = await prisma.message.findMany({
+      where: {
+        conversationId: id,
+        hiddenFor: { none: { userId } },
+        ...(cursor && messageCursorWhere(cursor, direction)),
+        // Cursor conditions may use OR too, so expiry is combined with AND
+        AND: [notExpiredWhere()],
+      },
+      include: {
+        ...messageInclude,
+        readReceipts: {
+          where: readReceiptsVisibleWhere(userId, readReceiptsEnabled),
+          include: {
+            user: {
+              select: {
+                id: true,
+                displayName: true,
+              },
+            },
+          },
+        },
+        reactions: {
+          select: {
+            emoji: true,
+            userId: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: [{ createdAt: order }, { id: order }],
+      take: limit + 1, // One extra row tells us whether more remain
+    });
+
+    const hasMore = messages.length > limit;
+    const pageMessages = messages.slice(0, limit);
+
+    // Loading messages over REST counts as receiving them
+    await markMessagesDelivered(userId, pageMessages.map(message => message.id));
+
+    const starredIds = await getStarredMessageIds(userId, pageMessages.map(message => message.id));
+
+    // Return in chronological order, with reactions folded into summaries and quoted messages into previews
+    const formattedMessages = (direction === 'before' ? pageMessages.reverse() : pageMessages)
+      .map(message => redactReadState(
+        { ...formatMessage(message), isStarred: starredIds.has(message.id) },
+        userId,
+        readReceiptsEnabled
+      ));
+
+    res.json({
+      success: true,
+      data: {
+        messages: formattedMessages,
+        pagination: {
+          limit,
+          hasMore,
+          // Cursors for loading the next older and newer pages
+          before: formattedMessages[0]?.id ?? null,
+          after: formattedMessages[formattedMessages.length - 1]?.id ?? null,
+        },
+      },
+    });
+  })
+);
+
+// Send message
+router.post('/:id/messages',
+  messageLimiter,
+  authenticateToken,
+  validate([
+    param('id').isUUID().withMessage('Invalid conversation ID'),
+    body('content').optional().isString().isLength({ max: 2000 }).withMessage('Message content too long'),
+    body('messageType').isIn(['text', 'image', 'pdf', 'txt', 'other_file']).withMessage('Invalid message type'),
+    body('fileUrl').optional().isURL().withMessage('Invalid file URL'),
+    body('fileName').optional().isString().isLength({ max: 255 }).withMessage('File name too long'),
+    body('fileSize').optional().isInt({ min: 0 }).withMessage('Invalid file size'),
+    body('fileMimeType').optional().isString().withMessage('Invalid file MIME type'),
+    body('replyToId').optional().isUUID().withMessage('Invalid reply message ID'),
+    body('clientMessageId').optional().isString().isLength({ min: 1, max: VALIDATION.MESSAGE.CLIENT_ID_MAX_LENGTH }).withMessage('Invalid client message ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const messageData: SendMessageRequest = req.body;
+
+    const { message, created } = await sendMessage(id, userId, messageData, { clearDraft: true });
+
+    // A retry with a known clientMessageId gets the original message back
+    if (!created) {
+      return res.json({
+        success: true,
+        data: message,
+      });
+    }
+
+    logger.info('Message sent:', {
+      messageId: message.id,
+      conversationId: id,
+      senderId: userId,
+      messageType: message.messageType,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: message,
+    });
+  })
+);
+
+// Forward messages into other conversations
+router.post('/messages/forward',
+  messageLimiter,
+  authenticateToken,
+  validate([
+    body('messageIds').isArray({ min: 1, max: VALIDATION.MESSAGE.FORWARD_MAX_MESSAGES }).withMessage(`Forward 1-${VALIDATION.MESSAGE.FORWARD_MAX_MESSAGES} messages at a time`),
+    body('messageIds.*').isUUID().withMessage('Invalid message ID'),
+    body('conversationIds').isArray({ min: 1, max: VALIDATION.MESSAGE.FORWARD_MAX_CONVERSATIONS }).withMessage(`Forward to 1-${VALIDATION.MESSAGE.FORWARD_MAX_CONVERSATIONS} conversations at a time`),
+    body('conversationIds.*').isUUID().withMessage('Invalid conversation ID'),
+  ]),
+  handleValidationErrors,
+  // Every copy counts as a sent message
+  chargeMessageLimit(req => new Set(req.body.messageIds).size * new Set(req.body.conversationIds).size),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageIds, conversationIds }: ForwardMessagesRequest = req.body;
+
+    // Stored in one transaction; members only hear about the copies once they all exist
+    const messages = await forwardMessages(userId, messageIds, conversationIds);
+
+    for (const conversationId of new Set(conversationIds)) {
+      const memberIds = await getMemberIds(conversationId);
+      messages
+        .filter(message => message.conversationId === conversationId)
+        .forEach(message => emitToUsers(memberIds, 'message_received', message));
+    }
+
+    logger.info('Messages forwarded:', {
+      userId,
+      messageIds,
+      conversationIds,
+      count: messages.length,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: messages,
+    });
+  })
+);
+
+// Mark message as read
+router.put('/messages/:messageId/read',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+
+    // Find message and verify user is participant
+    const message = await prisma.message.findFirst({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    // Verify user is participant and not the sender
+    const membership = await getMembership(message.conversationId, userId);
+    
+    if (!membership) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to read this message',
+      });
+    }
+
+    if (message.senderId === userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot mark your own message as read',
+      });
+    }
+
+    // Receipts reach other members only if the reader shares them
+    await markMessagesRead(userId, [messageId]);
+
+    logger.info('Message marked as read:', {
+      messageId,
+      readerId: userId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Message marked as read',
+    });
+  })
+);
+
+// Edit message
+router.put('/messages/:messageId',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+    body('content').isString().isLength({ min: 1, max: VALIDATION.MESSAGE.MAX_LENGTH }).withMessage('Message content must be 1-2000 characters'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+    const { content }: EditMessageRequest = req.body;
+
+    const message = await editMessage(messageId, userId, content);
+
+    // Let everyone in the conversation update the message in place, with the strictest
+    // read-state view; only the editor's response carries the full copy
+    emitToConversation(message.conversationId, 'message_edited', redactReadState(message, message.senderId, false));
+
+    logger.info('Message edited:', {
+      messageId,
+      conversationId: message.conversationId,
+      senderId: userId,
+    });
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  })
+);
+
+// Delete message for me or for everyone
+router.delete('/messages/:messageId',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+    query('scope').optional().isIn(['me', 'everyone']).withMessage('Scope must be me or everyone'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+    const scope = (req.query.scope as DeleteMessageScope) || 'me';
+
+    const message = scope === 'everyone'
+      ? await deleteMessageForEveryone(messageId, userId)
+      : await deleteMessageForMe(messageId, userId);
+
+    const deletedEvent = {
+      messageId,
+      conversationId: message.conversationId,
+      scope,
+      deletedAt: new Date(),
+    };
+
+    // Everyone sees the tombstone; a delete for me only syncs the caller's other devices
+    if (scope === 'everyone') {
+      emitToConversation(message.conversationId, 'message_deleted', deletedEvent);
+    } else {
+      emitToUsers([userId], 'message_deleted', deletedEvent);
+    }
+
+    logger.info('Message deleted:', {
+      messageId,
+      conversationId: message.conversationId,
+      userId,
+      scope,
+    });
+
+    res.json({
+      success: true,
+      message: scope === 'everyone' ? 'Message deleted for everyone' : 'Message deleted for you',
+    });
+  })
+);
+
+// Toggle a reaction on a message
+router.post('/messages/:messageId/reactions',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+    body('emoji').isString().isLength({ min: 1, max: VALIDATION.REACTION.MAX_LENGTH }).withMessage('Invalid reaction emoji'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+    const { emoji }: ReactionRequest = req.body;
+
+    const result = await toggleReaction(messageId, userId, emoji);
+
+    emitToConversation(result.conversationId, result.action === 'added' ? 'reaction_added' : 'reaction_removed', {
+      messageId,
+      conversationId: result.conversationId,
+      userId,
+      emoji,
+      reaction: result.reaction,
+    });
+
+    res.status(result.action === 'added' ? 201 : 200).json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+// Remove a reaction from a message
+router.delete('/messages/:messageId/reactions/:emoji',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+    param('emoji').isLength({ min: 1, max: VALIDATION.REACTION.MAX_LENGTH }).withMessage('Invalid reaction emoji'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId, emoji } = req.params;
+
+    const result = await removeReaction(messageId, userId, emoji);
+
+    emitToConversation(result.conversationId, 'reaction_removed', {
+      messageId,
+      conversationId: result.conversationId,
+      userId,
+      emoji,
+      reaction: result.reaction,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+// Get message edit history
+router.get('/messages/:messageId/revisions',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+
+    const revisions = await getMessageRevisions(messageId, userId);
+
+    res.json({
+      success: true,
+      data: revisions,
     });
   })
 );
@@ -5,6 +5,7 @@ import { validate, handleValidationErrors } from '../middleware/validation';
 import { authenticateToken } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
+import { getPrivacyViewer, redactLastSeen } from '../utils/privacy';
 import type { ApiResponse, UserProfile, Friendship } from '@toff/shared';
 
 const router = express.Router();
@@ -14,6 +15,7 @@ router.get('/',
   authenticateToken,
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const userId = req.user!.userId;
+    const viewer = await getPrivacyViewer(userId);
 
     // Get all friendships involving this user
     const friendships = await prisma.friendship.findMany({
@@ -33,6 +35,7 @@ router.get('/',
             avatarUrl: true,
             isOnline: true,
             lastSeen: true,
+            lastSeenVisibility: true,
           },
         },
         addressee: {
@@ -44,6 +47,7 @@ router.get('/',
             avatarUrl: true,
             isOnline: true,
             lastSeen: true,
+            lastSeenVisibility: true,
           },
         },
       },
@@ -66,7 +70,7 @@ router.get('/',
         status: friendship.status,
         createdAt: friendship.createdAt,
         updatedAt: friendship.updatedAt,
-        user: otherUser,
+        user: redactLastSeen(otherUser, viewer),
       };
 
       if (friendship.status === 'ACCEPTED') {
@@ -234,6 +238,7 @@ router.put('/request/:id',
             avatarUrl: true,
             isOnline: true,
             lastSeen: true,
+            lastSeenVisibility: true,
           },
         },
       },
@@ -249,7 +254,10 @@ router.put('/request/:id',
 
     res.json({
       success: true,
-      data: updatedFriendship,
+      data: {
+        ...updatedFriendship,
+        requester: redactLastSeen(updatedFriendship.requester, await getPrivacyViewer(userId)),
+      },
       message: `Friend request ${action}`,
     });
   })
@@ -0,0 +1,44 @@
+import express from 'express';
+import { query } from 'express-validator';
+import { validate, handleValidationErrors } from '../middleware/validation';
+import { authenticateToken } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getMentions } from '../utils/mentions';
+import { VALIDATION } from '@toff/shared';
+
+const router = express.Router();
+
+// Messages mentioning the user across their conversations, newest first
+router.get('/',
+  authenticateToken,
+  validate([
+    query('before').optional().isUUID().withMessage('Before must be a message ID'),
+    query('unread').optional().isBoolean().withMessage('Unread must be true or false'),
+    query('limit').optional().isInt({ min: 1, max: VALIDATION.MENTIONS.MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${VALIDATION.MENTIONS.MAX_PAGE_SIZE}`),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const before = req.query.before as string | undefined;
+    const unreadOnly = req.query.unread === 'true';
+    const limit = parseInt(req.query.limit as string) || VALIDATION.MENTIONS.DEFAULT_PAGE_SIZE;
+
+    const { results, hasMore, unreadCount } = await getMentions(userId, { before, unreadOnly, limit });
+
+    res.json({
+      success: true,
+      data: {
+        results,
+        unreadCount,
+        pagination: {
+          limit,
+          hasMore,
+          // Cursor for loading the next page
+          before: results[results.length - 1]?.message.id ?? null,
+        },
+      },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,152 @@
+import express from 'express';
+import { param, query } from 'express-validator';
+import { validate, handleValidationErrors } from '../middleware/validation';
+import { authenticateToken } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../config/logger';
+import { emitToUsers } from '../socket/emitter';
+import { searchMessages } from '../utils/messages';
+import { starMessage, unstarMessage, getStarredMessages } from '../utils/starredMessages';
+import { VALIDATION } from '@toff/shared';
+import type { MessageType } from '@toff/shared';
+
+const router = express.Router();
+
+// Search messages across the user's conversations
+router.get('/search',
+  authenticateToken,
+  validate([
+    query('q').isString().trim().isLength({ min: 1, max: VALIDATION.SEARCH.QUERY_MAX_LENGTH }).withMessage('Search query is required'),
+    query('conversationId').optional().isUUID().withMessage('Invalid conversation ID'),
+    query('senderId').optional().isUUID().withMessage('Invalid sender ID'),
+    query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date'),
+    query('messageType').optional().isIn(['text', 'image', 'pdf', 'txt', 'other_file']).withMessage('Invalid message type'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: VALIDATION.SEARCH.MAX_RESULTS }).withMessage(`Limit must be between 1 and ${VALIDATION.SEARCH.MAX_RESULTS}`),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { q, conversationId, senderId, from, to, messageType } = req.query as {
+      q: string;
+      conversationId?: string;
+      senderId?: string;
+      from?: string;
+      to?: string;
+      messageType?: MessageType;
+    };
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { results, hasMore } = await searchMessages(userId, {
+      q,
+      conversationId,
+      senderId,
+      from,
+      to,
+      messageType,
+      page,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        results,
+        pagination: {
+          page,
+          limit,
+          hasMore,
+        },
+      },
+    });
+  })
+);
+
+// Starred messages across the user's conversations, most recently starred first
+router.get('/starred',
+  authenticateToken,
+  validate([
+    query('before').optional().isUUID().withMessage('Before must be a message ID'),
+    query('limit').optional().isInt({ min: 1, max: VALIDATION.STARRED.MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${VALIDATION.STARRED.MAX_PAGE_SIZE}`),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const before = req.query.before as string | undefined;
+    const limit = parseInt(req.query.limit as string) || VALIDATION.STARRED.DEFAULT_PAGE_SIZE;
+
+    const { results, hasMore } = await getStarredMessages(userId, { before, limit });
+
+    res.json({
+      success: true,
+      data: {
+        results,
+        pagination: {
+          limit,
+          hasMore,
+          // Cursor for loading the next page
+          before: results[results.length - 1]?.message.id ?? null,
+        },
+      },
+    });
+  })
+);
+
+// Star a message
+router.put('/:messageId/star',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+
+    const event = await starMessage(messageId, userId);
+
+    // Keep the user's other devices in sync
+    emitToUsers([userId], 'message_star_updated', event);
+
+    logger.info('Message starred:', {
+      messageId,
+      userId,
+    });
+
+    res.json({
+      success: true,
+      data: event,
+    });
+  })
+);
+
+// Unstar a message
+router.delete('/:messageId/star',
+  authenticateToken,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message ID'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const { messageId } = req.params;
+
+    const event = await unstarMessage(messageId, userId);
+
+    emitToUsers([userId], 'message_star_updated', event);
+
+    logger.info('Message unstarred:', {
+      messageId,
+      userId,
+    });
+
+    res.json({
+      success: true,
+      data: event,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,226 @@
+import express from 'express';
+import { query } from 'express-validator';
+import { prisma } from '../config/database';
+import { validate, handleValidationErrors } from '../middleware/validation';
+import { authenticateToken } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { messageInclude, formatMessage, markMessagesDelivered, notExpiredWhere } from '../utils/messages';
+import { getPrivacySettings, readReceiptsVisibleWhere, redactReadState } from '../utils/privacy';
+import { changedSinceWhere, decodeSyncCheckpoint, encodeSyncCheckpoint } from '../utils/syncCheckpoints';
+import type { SyncStream } from '../utils/syncCheckpoints';
+import { VALIDATION } from '@toff/shared';
+import type { MessageDeletedEvent, MessageDeliveredEvent, MessagesExpiredEvent, ReadReceiptChange } from '@toff/shared';
+
+const router = express.Router();
+
+// Catch up on message changes since a checkpoint; without `since` only a starting checkpoint is returned
+router.get('/',
+  authenticateToken,
+  validate([
+    query('since').optional().custom(value => decodeSyncCheckpoint(value) !== null)
+      .withMessage('Since must be an ISO 8601 date or a checkpoint returned by sync'),
+  ]),
+  handleValidationErrors,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const checkpoint = new Date();
+
+    if (!req.query.since) {
+      return res.json({
+        success: true,
+        data: {
+          checkpoint: checkpoint.toISOString(),
+          hasMore: false,
+          created: [],
+          edited: [],
+          deleted: [],
+          expired: [],
+          readReceipts: [],
+          deliveries: [],
+        },
+      });
+    }
+
+    const sinceCheckpoint = decodeSyncCheckpoint(req.query.since as string)!;
+    const since = sinceCheckpoint.at;
+    const maxChanges = VALIDATION.SYNC.MAX_CHANGES;
+    const { readReceiptsEnabled } = await getPrivacySettings(userId);
+    const inMemberConversation = { conversation: { members: { some: { userId } } } };
+
+    // New, edited and deleted-for-everyone messages, and attached link previews, bump contentUpdatedAt;
+    // delivery and read receipts don't, so they only show up in their own streams.
+    // Boundaries are inclusive so nothing is lost at a checkpoint; clients dedupe by id.
+    // Each stream is ordered by (change time, id), so a checkpoint can resume inside a tie.
+    const [messages, receipts, deliveries, hiddenMessages, expiredMessages] = await Promise.all([
+      prisma.message.findMany({
+        where: {
+          ...inMemberConversation,
+          hiddenFor: { none: { userId } },
+          ...notExpiredWhere(),
+          ...changedSinceWhere('contentUpdatedAt', 'messages', sinceCheckpoint, checkpoint),
+        },
+        include: {
+          ...messageInclude,
+          reactions: {
+            select: {
+              emoji: true,
+              userId: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: [{ contentUpdatedAt: 'asc' }, { id: 'asc' }],
+        take: maxChanges + 1,
+      }),
+      prisma.messageReadReceipt.findMany({
+        where: {
+          message: inMemberConversation,
+          ...readReceiptsVisibleWhere(userId, readReceiptsEnabled),
+          ...changedSinceWhere('readAt', 'readReceipts', sinceCheckpoint, checkpoint),
+        },
+        include: {
+          message: {
+            select: { conversationId: true },
+          },
+        },
+        orderBy: [{ readAt: 'asc' }, { id: 'asc' }],
+        take: maxChanges + 1,
+      }),
+      prisma.messageDelivery.findMany({
+        where: {
+          message: inMemberConversation,
+          ...changedSinceWhere('deliveredAt', 'deliveries', sinceCheckpoint, checkpoint),
+        },
+        include: {
+          message: {
+            select: { conversationId: true },
+          },
+        },
+        orderBy: [{ deliveredAt: 'asc' }, { id: 'asc' }],
+        take: maxChanges + 1,
+      }),
+      prisma.messageDeletion.findMany({
+        where: {
+          userId,
+          ...changedSinceWhere('createdAt', 'hiddenMessages', sinceCheckpoint, checkpoint),
+        },
+        include: {
+          message: {
+            select: { conversationId: true },
+          },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: maxChanges + 1,
+      }),
+      prisma.expiredMessage.findMany({
+        where: {
+          conversation: { members: { some: { userId } } },
+          ...changedSinceWhere('expiredAt', 'expiredMessages', sinceCheckpoint, checkpoint),
+        },
+        orderBy: [{ expiredAt: 'asc' }, { id: 'asc' }],
+        take: maxChanges + 1,
+      }),
+    ]);
+
+    // When a stream is truncated, the next checkpoint stops at its last included change
+    let nextAt = checkpoint;
+    let hasMore = false;
+    const returned: { stream: SyncStream; changes: { at: Date; id: string }[] }[] = [];
+    const truncate = <T extends { id: string }>(stream: SyncStream, rows: T[], changedAt: (row: T) => Date): T[] => {
+      const kept = rows.slice(0, maxChanges);
+      if (rows.length > maxChanges) {
+        const lastChangedAt = changedAt(kept[kept.length - 1]);
+        if (lastChangedAt < nextAt) nextAt = lastChangedAt;
+        hasMore = true;
+      }
+      returned.push({ stream, changes: kept.map(row => ({ at: changedAt(row), id: row.id })) });
+      return kept;
+    };
+
+    const changedMessages = truncate('messages', messages, message => message.contentUpdatedAt);
+    const changedReceipts = truncate('readReceipts', receipts, receipt => receipt.readAt);
+    const changedDeliveries = truncate('deliveries', deliveries, delivery => delivery.deliveredAt);
+    const changedHidden = truncate('hiddenMessages', hiddenMessages, deletion => deletion.createdAt);
+    const changedExpired = truncate('expiredMessages', expiredMessages, expiry => expiry.expiredAt);
+
+    // Mid-catch-up, each stream resumes after the last row it returned at the next checkpoint's
+    // timestamp, so more than MAX_CHANGES rows sharing one timestamp (e.g. a whole chat marked
+    // read at once) are paged through instead of being returned again forever
+    const after: Partial<Record<SyncStream, string>> = {};
+    if (hasMore) {
+      returned.forEach(({ stream, changes }) => {
+        const atNext = changes.filter(change => change.at.getTime() === nextAt.getTime());
+        const lastId = atNext.length > 0
+          ? atNext[atNext.length - 1].id
+          : since.getTime() === nextAt.getTime() ? sinceCheckpoint.after?.[stream] : undefined;
+        if (lastId) after[stream] = lastId;
+      });
+    }
+    const nextCheckpoint = encodeSyncCheckpoint({ at: nextAt, after });
+
+    const created = changedMessages.filter(message => message.createdAt >= since);
+    // Older messages that still exist changed since the checkpoint: edited, or given a link preview
+    const edited = changedMessages.filter(message => message.createdAt < since && !message.isDeleted);
+
+    const deleted: MessageDeletedEvent[] = [
+      ...changedMessages
+        .filter(message => message.createdAt < since && message.isDeleted && message.deletedAt && message.deletedAt >= since)
+        .map(message => ({
+          messageId: message.id,
+          conversationId: message.conversationId,
+          scope: 'everyone' as const,
+          deletedAt: message.deletedAt!,
+        })),
+      ...changedHidden.map(deletion => ({
+        messageId: deletion.messageId,
+        conversationId: deletion.message.conversationId,
+        scope: 'me' as const,
+        deletedAt: deletion.createdAt,
+      })),
+    ];
+
+    // Disappearing messages the cleanup job removed, grouped like the `messages_expired` event
+    const expiredByConversation = new Map<string, string[]>();
+    changedExpired.forEach(expiry => {
+      expiredByConversation.set(expiry.conversationId, [
+        ...(expiredByConversation.get(expiry.conversationId) || []),
+        expiry.messageId,
+      ]);
+    });
+    const expired: MessagesExpiredEvent[] = [...expiredByConversation]
+      .map(([conversationId, messageIds]) => ({ conversationId, messageIds }));
+
+    const readReceipts: ReadReceiptChange[] = changedReceipts.map(receipt => ({
+      messageId: receipt.messageId,
+      conversationId: receipt.message.conversationId,
+      userId: receipt.userId,
+      readAt: receipt.readAt,
+    }));
+
+    const deliveryChanges: MessageDeliveredEvent[] = changedDeliveries.map(delivery => ({
+      messageId: delivery.messageId,
+      conversationId: delivery.message.conversationId,
+      userId: delivery.userId,
+      deliveredAt: delivery.deliveredAt,
+    }));
+
+    // Messages fetched while catching up count as delivered to this user
+    await markMessagesDelivered(userId, created.map(message => message.id));
+
+    res.json({
+      success: true,
+      data: {
+        checkpoint: nextCheckpoint,
+        hasMore,
+        created: created.map(message => redactReadState(formatMessage(message), userId, readReceiptsEnabled)),
+        edited: edited.map(message => redactReadState(formatMessage(message), userId, readReceiptsEnabled)),
+        deleted,
+        expired,
+        readReceipts,
+        deliveries: deliveryChanges,
+      },
+    });
+  })
+);
+
+export default router;
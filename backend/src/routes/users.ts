@@ -5,7 +5,12 @@ import { validate, handleValidationErrors } from '../middleware/validation';
 import { authenticateToken } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
+import { getFriendIds } from '../utils/friends';
+import { getPrivacyViewer, redactLastSeen } from '../utils/privacy';
+import { statusSelect, formatUserStatus, formatVisibleStatus } from '../utils/status';
+import { getPresenceStore } from '../socket/presenceStore';
 import { generateInviteCode } from '@toff/shared';
+import type { UserPresence } from '@toff/shared';
 
 const router = express.Router();
 
@@ -40,6 +45,7 @@ router.get('/search',
         avatarUrl: true,
         isOnline: true,
         lastSeen: true,
+        lastSeenVisibility: true,
       },
       take: 20, // Limit results
     });
@@ -55,6 +61,8 @@ router.get('/search',
       },
     });
 
+    const viewer = await getPrivacyViewer(userId);
+
     // Map friendship status to users
     const usersWithFriendshipStatus = users.map(user => {
       const friendship = friendships.find(f => 
@@ -74,7 +82,7 @@ router.get('/search',
       }
 
       return {
-        ...user,
+        ...redactLastSeen(user, viewer),
         friendshipStatus,
       };
     });
@@ -89,6 +97,42 @@ router.get('/search',
   })
 );
 
+// Get the current presence of each friend
+router.get('/presence',
+  authenticateToken,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.userId;
+    const friendIds = await getFriendIds(userId);
+
+    const [friends, connected] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: friendIds } },
+        select: {
+          id: true,
+          lastSeen: true,
+          lastSeenVisibility: true,
+          ...statusSelect,
+        },
+      }),
+      getPresenceStore().getConnectedUserIds(friendIds),
+    ]);
+
+    // Online means at least one live connection on any instance, unless the friend is invisible
+    const presence: UserPresence[] = friends.map(friend => ({
+      userId: friend.id,
+      isOnline: connected.has(friend.id) && formatUserStatus(friend).status !== 'invisible',
+      // Everyone listed is a friend, so only 'nobody' hides last seen
+      lastSeen: friend.lastSeenVisibility === 'NOBODY' ? null : friend.lastSeen,
+      ...formatVisibleStatus(friend),
+    }));
+
+    res.json({
+      success: true,
+      data: presence,
+    });
+  })
+);
+
 // Generate invite code
 router.post('/invite-code',
   authenticateToken,
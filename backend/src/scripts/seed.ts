@@ -90,6 +90,12 @@ async function main() {
       participantOne: user1.id,
       participantTwo: user2.id,
       lastMessageAt: new Date(),
+      members: {
+        create: [
+          { userId: user1.id },
+          { userId: user2.id },
+        ],
+      },
     },
   });
 
@@ -2,58 +2,63 @@ import { Server as SocketIOServer } from 'socket.io';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
 import type { AuthenticatedSocket } from '../middleware/socketAuth';
+import { getPresenceStore } from './presenceStore';
+import { emitToUsers } from './emitter';
+import { getFriendIds } from '../utils/friends';
+import { activeInvisibleWhere } from '../utils/status';
+import { getPrivacySettings } from '../utils/privacy';
+import { PRESENCE } from '@toff/shared';
+import type { FriendOnlineEvent, FriendOfflineEvent } from '@toff/shared';
 
 export const setupActivityHandlers = (io: SocketIOServer, socket: AuthenticatedSocket) => {
-  // User starts typing
+  // Local expiry timers for conversations this socket is typing in
+  const typingTimers = new Map<string, NodeJS.Timeout>();
+
+  const clearTypingTimer = (conversationId: string) => {
+    const timer = typingTimers.get(conversationId);
+    if (timer) clearTimeout(timer);
+    typingTimers.delete(conversationId);
+  };
+
+  const emitStoppedTyping = (conversationId: string) => {
+    socket.to(conversationId).emit('user_stopped_typing', {
+      userId: socket.userId,
+      conversationId,
+    });
+  };
+
+  // User starts typing; fires on every keystroke, so no database round trip here
   socket.on('typing_start', async (conversationId: string) => {
     try {
-      // Verify user is participant in conversation
-      const conversation = await prisma.conversation.findFirst({
-        where: {
-          id: conversationId,
-          OR: [
-            { participantOne: socket.userId! },
-            { participantTwo: socket.userId! },
-          ],
-        },
-      });
-
-      if (!conversation) {
+      // Only members can join a conversation room, so room membership is the access check
+      if (!socket.rooms.has(conversationId)) {
         return;
       }
 
-      // Update or create typing activity
-      await prisma.userActivity.upsert({
-        where: {
-          userId_conversationId_activityType: {
-            userId: socket.userId!,
-            conversationId,
-            activityType: 'TYPING',
-          },
-        },
-        update: {
-          activityType: 'TYPING',
-          lastActivity: new Date(),
-        },
-        create: {
-          userId: socket.userId!,
-          conversationId,
-          activityType: 'TYPING',
-          lastActivity: new Date(),
-        },
-      });
+      const broadcastDue = await getPresenceStore().touchTyping(conversationId, socket.userId!);
 
-      // Emit typing event to other participants
-      socket.to(conversationId).emit('user_typing', {
-        userId: socket.userId,
-        conversationId,
-        user: socket.user,
-      });
+      // Emit typing event to other participants, throttled while the user keeps typing
+      if (broadcastDue) {
+        socket.to(conversationId).emit('user_typing', {
+          userId: socket.userId,
+          conversationId,
+          user: socket.user,
+        });
+      }
 
-      logger.debug('User started typing:', {
-        userId: socket.userId,
-        conversationId,
-      });
+      // Announce the stop once typing expires, unless another device kept it alive
+      clearTypingTimer(conversationId);
+      const timer = setTimeout(async () => {
+        typingTimers.delete(conversationId);
+        try {
+          if (!(await getPresenceStore().isTyping(conversationId, socket.userId!))) {
+            emitStoppedTyping(conversationId);
+          }
+        } catch (error) {
+          logger.error('Error expiring typing state:', error);
+        }
+      }, PRESENCE.TYPING_TTL_MS);
+      typingTimers.set(conversationId, timer);
     } catch (error) {
       logger.error('Error handling typing start:', error);
     }
@@ -62,20 +67,11 @@ export const setupActivityHandlers = (io: SocketIOServer, socket: AuthenticatedS
   // User stops typing
   socket.on('typing_stop', async (conversationId: string) => {
     try {
-      // Remove typing activity
-      await prisma.userActivity.deleteMany({
-        where: {
-          userId: socket.userId!,
-          conversationId,
-          activityType: 'TYPING',
-        },
-      });
+      clearTypingTimer(conversationId);
 
-      // Emit stop typing event to other participants
-      socket.to(conversationId).emit('user_stopped_typing', {
-        userId: socket.userId,
-        conversationId,
-      });
+      if (await getPresenceStore().stopTyping(conversationId, socket.userId!)) {
+        emitStoppedTyping(conversationId);
+      }
 
       logger.debug('User stopped typing:', {
         userId: socket.userId,
@@ -86,158 +82,135 @@ export const setupActivityHandlers = (io: SocketIOServer, socket: AuthenticatedS
     }
   });
 
-  // User comes online
-  socket.on('user_online', async () => {
-    try {
-      // Update user online status
-      await prisma.user.update({
-        where: { id: socket.userId! },
-        data: {
-          isOnline: true,
-          lastSeen: new Date(),
-        },
-      });
-
-      // Get user's friends to notify them
-      const friendships = await prisma.friendship.findMany({
-        where: {
-          OR: [
-            { requesterId: socket.userId!, status: 'ACCEPTED' },
-            { addresseeId: socket.userId!, status: 'ACCEPTED' },
-          ],
-        },
-        include: {
-          requester: { select: { id: true } },
-          addressee: { select: { id: true } },
-        },
-      });
-
-      // Get friend user IDs
-      const friendIds = friendships.map(f => 
-        f.requesterId === socket.userId! ? f.addressee.id : f.requester.id
-      );
-
-      // Emit online status to friends
-      friendIds.forEach(friendId => {
-        socket.to(`user:${friendId}`).emit('friend_online', {
-          userId: socket.userId,
-          user: socket.user,
-          timestamp: new Date(),
-        });
-      });
-
-      // Join user's personal room for friend notifications
-      socket.join(`user:${socket.userId}`);
-
-      logger.info('User came online:', {
-        userId: socket.userId,
-        friendsNotified: friendIds.length,
-      });
-    } catch (error) {
-      logger.error('Error handling user online:', error);
-    }
-  });
-
-  // User goes offline (handled on disconnect)
-  socket.on('user_offline', async () => {
-    await handleUserOffline(io, socket);
+  // Presence follows live connections, so a user stays online while any device is connected
+  handleConnectionOpened(socket).catch(error => {
+    logger.error('Error handling user online:', error);
   });
 
   // Handle disconnect
   socket.on('disconnect', async () => {
-    await handleUserOffline(io, socket);
+    const typingConversationIds = Array.from(typingTimers.keys());
+    typingTimers.forEach(timer => clearTimeout(timer));
+    typingTimers.clear();
+
+    await stopTypingEverywhere(socket, typingConversationIds);
+    await handleConnectionClosed(socket);
   });
 };
 
-async function handleUserOffline(io: SocketIOServer, socket: AuthenticatedSocket) {
-  try {
-    if (!socket.userId) return;
-
-    // Update user offline status
-    await prisma.user.update({
-      where: { id: socket.userId },
-      data: {
-        isOnline: false,
-        lastSeen: new Date(),
-      },
-    });
-
-    // Remove all typing activities for this user
-    await prisma.userActivity.deleteMany({
-      where: {
-        userId: socket.userId,
-        activityType: 'TYPING',
-      },
-    });
-
-    // Get user's friends to notify them
-    const friendships = await prisma.friendship.findMany({
-      where: {
-        OR: [
-          { requesterId: socket.userId, status: 'ACCEPTED' },
-          { addresseeId: socket.userId, status: 'ACCEPTED' },
-        ],
-      },
-      include: {
-        requester: { select: { id: true } },
-        addressee: { select: { id: true } },
-      },
-    });
+// Pending friend_offline notifications, cancelled when the user reconnects to this instance
+const offlineTimers = new Map<string, NodeJS.Timeout>();
 
-    // Get friend user IDs
-    const friendIds = friendships.map(f => 
-      f.requesterId === socket.userId ? f.addressee.id : f.requester.id
-    );
+async function handleConnectionOpened(socket: AuthenticatedSocket) {
+  const userId = socket.userId!;
 
-    const lastSeen = new Date();
+  const pendingOffline = offlineTimers.get(userId);
+  if (pendingOffline) {
+    clearTimeout(pendingOffline);
+    offlineTimers.delete(userId);
+  }
 
-    // Emit offline status to friends
-    friendIds.forEach(friendId => {
-      socket.to(`user:${friendId}`).emit('friend_offline', {
-        userId: socket.userId,
-        lastSeen,
-      });
-    });
+  const connectionCount = await getPresenceStore().addConnection(userId, socket.id);
+  if (connectionCount > 1) return;
+
+  // Only the transition from offline notifies friends; reconnects within the grace period
+  // don't, and invisible users stay offline to their friends
+  const { count: cameOnline } = await prisma.user.updateMany({
+    where: { id: userId, isOnline: false, NOT: activeInvisibleWhere() },
+    data: {
+      isOnline: true,
+      lastSeen: new Date(),
+    },
+  });
+  if (cameOnline === 0) return;
+
+  const friendIds = await getFriendIds(userId);
+  const event: FriendOnlineEvent = {
+    userId,
+    user: {
+      id: socket.user!.id,
+      username: socket.user!.username,
+      displayName: socket.user!.displayName,
+    },
+    timestamp: new Date(),
+  };
+
+  // Emit online status to friends
+  emitToUsers(friendIds, 'friend_online', event);
+
+  logger.info('User came online:', {
+    userId,
+    friendsNotified: friendIds.length,
+  });
+}
 
-    // Emit typing stop for any conversations where user was typing
-    const conversationRooms = Array.from(socket.rooms).filter(room => 
-      room !== socket.id && room.startsWith('conversation:')
-    );
+async function handleConnectionClosed(socket: AuthenticatedSocket) {
+  const userId = socket.userId!;
 
-    conversationRooms.forEach(room => {
-      socket.to(room).emit('user_stopped_typing', {
-        userId: socket.userId,
-        conversationId: room.replace('conversation:', ''),
+  try {
+    const connectionCount = await getPresenceStore().removeConnection(userId, socket.id);
+    if (connectionCount > 0 || offlineTimers.has(userId)) return;
+
+    // Wait out the grace period before telling friends, in case the user is only reconnecting
+    const timer = setTimeout(() => {
+      offlineTimers.delete(userId);
+      markUserOffline(userId).catch(error => {
+        logger.error('Error handling user offline:', error);
       });
-    });
-
-    logger.info('User went offline:', {
-      userId: socket.userId,
-      friendsNotified: friendIds.length,
-    });
+    }, PRESENCE.OFFLINE_GRACE_MS);
+    offlineTimers.set(userId, timer);
   } catch (error) {
     logger.error('Error handling user offline:', error);
   }
 }
 
-// Cleanup old typing activities (run periodically)
-export const cleanupTypingActivities = async () => {
-  try {
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-    
-    const deleted = await prisma.userActivity.deleteMany({
-      where: {
-        activityType: 'TYPING',
-        lastActivity: {
-          lt: fiveMinutesAgo,
-        },
-      },
-    });
+async function markUserOffline(userId: string) {
+  // The user may have reconnected to another instance in the meantime
+  const connected = await getPresenceStore().getConnectedUserIds([userId]);
+  if (connected.has(userId)) return;
+
+  const lastSeen = new Date();
 
-    if (deleted.count > 0) {
-      logger.info('Cleaned up old typing activities:', { count: deleted.count });
+  // Guarded so only one instance announces the transition
+  const { count: wentOffline } = await prisma.user.updateMany({
+    where: { id: userId, isOnline: true },
+    data: {
+      isOnline: false,
+      lastSeen,
+    },
+  });
+  if (wentOffline === 0) return;
+
+  const [friendIds, privacy] = await Promise.all([
+    getFriendIds(userId),
+    getPrivacySettings(userId),
+  ]);
+  const event: FriendOfflineEvent = {
+    userId,
+    lastSeen: privacy.lastSeenVisibility === 'NOBODY' ? null : lastSeen,
+  };
+
+  // Emit offline status to friends
+  emitToUsers(friendIds, 'friend_offline', event);
+
+  logger.info('User went offline:', {
+    userId,
+    friendsNotified: friendIds.length,
+  });
+}
+
+// Clear typing state a closing socket left behind and tell the other participants
+async function stopTypingEverywhere(socket: AuthenticatedSocket, conversationIds: string[]) {
+  try {
+    for (const conversationId of conversationIds) {
+      if (await getPresenceStore().stopTyping(conversationId, socket.userId!)) {
+        socket.to(conversationId).emit('user_stopped_typing', {
+          userId: socket.userId,
+          conversationId,
+        });
+      }
     }
   } catch (error) {
-    logger.error('Error cleaning up typing activities:', error);
+    logger.error('Error clearing typing state:', error);
   }
-};
+}
@@ -0,0 +1,72 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import type { AuthenticatedSocket } from '../middleware/socketAuth';
+import { messageInclude, formatMessage, markMessagesDelivered } from '../utils/messages';
+
+// Messages pushed per batch, and how long the client has to acknowledge each batch
+const BACKLOG_BATCH_SIZE = 100;
+const BACKLOG_ACK_TIMEOUT_MS = 10000;
+
+// Push the user's queued messages to a newly connected socket, oldest first, one acknowledged batch at a time.
+// Anything left unacknowledged stays queued for the next connection.
+export const flushPendingDeliveries = async (socket: AuthenticatedSocket) => {
+  const userId = socket.userId!;
+  let deliveredCount = 0;
+
+  // Drop entries the user can no longer see: conversations they left or messages they hid
+  await prisma.pendingDelivery.deleteMany({
+    where: {
+      userId,
+      message: {
+        OR: [
+          { conversation: { members: { none: { userId } } } },
+          { hiddenFor: { some: { userId } } },
+        ],
+      },
+    },
+  });
+
+  while (socket.connected) {
+    const pending = await prisma.pendingDelivery.findMany({
+      where: { userId },
+      include: {
+        message: {
+          include: messageInclude,
+        },
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: BACKLOG_BATCH_SIZE,
+    });
+
+    if (pending.length === 0) break;
+
+    const messages = pending.map(entry => formatMessage(entry.message));
+
+    try {
+      await socket.timeout(BACKLOG_ACK_TIMEOUT_MS).emitWithAck('message_backlog', { messages });
+    } catch (error) {
+      logger.warn('Message backlog not acknowledged:', {
+        userId,
+        socketId: socket.id,
+        pendingCount: messages.length,
+      });
+      return;
+    }
+
+    // Removes the batch from the queue and notifies the senders
+    await markMessagesDelivered(userId, messages.map(message => message.id));
+    deliveredCount += messages.length;
+  }
+
+  if (!socket.connected) return;
+
+  socket.emit('backlog_complete', { count: deliveredCount });
+
+  if (deliveredCount > 0) {
+    logger.info('Pending messages delivered:', {
+      userId,
+      socketId: socket.id,
+      messageCount: deliveredCount,
+    });
+  }
+};
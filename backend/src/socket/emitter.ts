@@ -0,0 +1,31 @@
+import { Server as SocketIOServer } from 'socket.io';
+
+// Socket.io server instance, registered once at startup so routes can emit events
+let socketServer: SocketIOServer | null = null;
+
+export const setSocketServer = (io: SocketIOServer) => {
+  socketServer = io;
+};
+
+export const getSocketServer = (): SocketIOServer | null => socketServer;
+
+// Personal room every authenticated socket joins on connection
+export const userRoom = (userId: string) => `user:${userId}`;
+
+// Emit an event to every connected socket of the given users
+export const emitToUsers = (userIds: string[], event: string, payload: unknown) => {
+  if (!socketServer || userIds.length === 0) return;
+  socketServer.to(userIds.map(userRoom)).emit(event, payload);
+};
+
+// Emit an event to everyone who joined a conversation room
+export const emitToConversation = (conversationId: string, event: string, payload: unknown) => {
+  if (!socketServer) return;
+  socketServer.to(conversationId).emit(event, payload);
+};
+
+// Make all sockets of the given users leave a conversation room
+export const removeUsersFromConversationRoom = (userIds: string[], conversationId: string) => {
+  if (!socketServer || userIds.length === 0) return;
+  socketServer.in(userIds.map(userRoom)).socketsLeave(conversationId);
+};
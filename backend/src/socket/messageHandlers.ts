@@ -2,22 +2,67 @@ import { Server as SocketIOServer } from 'socket.io';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
 import type { AuthenticatedSocket } from '../middleware/socketAuth';
-import type { SendMessageRequest, Message } from '@toff/shared';
+import { findMemberConversation, getMembership, getMemberIds } from '../utils/conversations';
+import {
+  sendMessage,
+  editMessage,
+  deleteMessageForMe,
+  deleteMessageForEveryone,
+  markMessagesDelivered,
+  markMessagesRead,
+  saveDraft,
+} from '../utils/messages';
+import { pinMessage, unpinMessage } from '../utils/pinnedMessages';
+import { redactReadState } from '../utils/privacy';
+import { userRoom, emitToUsers } from './emitter';
+import type { AppError } from '../middleware/errorHandler';
+import { VALIDATION } from '@toff/shared';
+import type {
+  SendMessageRequest,
+  EditMessageRequest,
+  DeleteMessageRequest,
+  MarkDeliveredRequest,
+  Message,
+  SocketAck,
+  ConversationDraft,
+  UpdateDraftRequest,
+  PinnedMessage,
+  MessageUnpinnedEvent,
+  MessageDeletedEvent,
+} from '@toff/shared';
+
+// Answer a failed event through its ack, or with an error event when the client sent none
+const respondWithError = <T>(
+  respond: ((response: SocketAck<T>) => void) | undefined,
+  socket: AuthenticatedSocket,
+  error: unknown,
+  fallbackMessage: string
+) => {
+  const appError = error as AppError;
+  if (!appError.isOperational) {
+    logger.error(`${fallbackMessage}:`, error);
+  }
+
+  const errorMessage = appError.isOperational ? appError.message : fallbackMessage;
+  if (respond) {
+    respond({
+      success: false,
+      error: {
+        message: errorMessage,
+        statusCode: appError.isOperational ? appError.statusCode || 400 : 500,
+      },
+    });
+  } else {
+    socket.emit('error', { message: errorMessage });
+  }
+};
 
 export const setupMessageHandlers = (io: SocketIOServer, socket: AuthenticatedSocket) => {
   // Join conversation room
   socket.on('join_conversation', async (conversationId: string) => {
     try {
       // Verify user is participant in conversation
-      const conversation = await prisma.conversation.findFirst({
-        where: {
-          id: conversationId,
-          OR: [
-            { participantOne: socket.userId! },
-            { participantTwo: socket.userId! },
-          ],
-        },
-      });
+      const conversation = await findMemberConversation(conversationId, socket.userId!);
 
       if (!conversation) {
         socket.emit('error', { message: 'Conversation not found' });
@@ -55,87 +100,166 @@ export const setupMessageHandlers = (io: SocketIOServer, socket: AuthenticatedSo
     });
   });
 
-  // Send message
-  socket.on('send_message', async (data: SendMessageRequest & { conversationId: string }) => {
+  // Send message; the optional ack receives the stored message or a structured error
+  socket.on('send_message', async (
+    data: SendMessageRequest & { conversationId: string },
+    ack?: (response: SocketAck<Message>) => void
+  ) => {
+    const respond = typeof ack === 'function' ? ack : undefined;
+
     try {
       const { conversationId, ...messageData } = data;
 
-      // Verify user is participant in conversation
-      const conversation = await prisma.conversation.findFirst({
-        where: {
-          id: conversationId,
-          OR: [
-            { participantOne: socket.userId! },
-            { participantTwo: socket.userId! },
-          ],
-        },
-      });
+      const { message, created } = await sendMessage(conversationId, socket.userId!, messageData, { clearDraft: true });
 
-      if (!conversation) {
-        socket.emit('error', { message: 'Conversation not found' });
+      // Retried sends were already broadcast by the first attempt
+      if (!created) {
+        respond?.({ success: true, data: message });
         return;
       }
 
-      // Validate message content
-      if (messageData.messageType === 'text' && !messageData.content) {
-        socket.emit('error', { message: 'Text messages must have content' });
-        return;
-      }
+      // Emit message to every connected device of every member, whether or not the chat is open;
+      // recipients confirm with mark_delivered and offline ones get it from their pending queue
+      emitToUsers(await getMemberIds(conversationId), 'message_received', message);
 
-      if (messageData.messageType !== 'text' && !messageData.fileUrl) {
-        socket.emit('error', { message: 'File messages must have a file URL' });
-        return;
-      }
-
-      // Create message in database
-      const message = await prisma.message.create({
-        data: {
-          conversationId,
-          senderId: socket.userId!,
-          content: messageData.content || null,
-          messageType: messageData.messageType.toUpperCase() as any,
-          fileUrl: messageData.fileUrl || null,
-          fileName: messageData.fileName || null,
-          fileSize: messageData.fileSize || null,
-          fileMimeType: messageData.fileMimeType || null,
-          deliveredAt: new Date(),
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              displayName: true,
-              avatarUrl: true,
-            },
-          },
-        },
+      logger.info('Real-time message sent:', {
+        messageId: message.id,
+        conversationId,
+        senderId: socket.userId,
+        messageType: message.messageType,
       });
 
-      // Update conversation last message time
-      await prisma.conversation.update({
-        where: { id: conversationId },
-        data: { lastMessageAt: new Date() },
-      });
+      respond?.({ success: true, data: message });
+    } catch (error) {
+      respondWithError(respond, socket, error, 'Failed to send message');
+    }
+  });
 
-      // Emit message to all participants
-      io.to(conversationId).emit('message_received', message);
+  // Edit message; the optional ack receives the edited message or a structured error
+  socket.on('edit_message', async (
+    data: EditMessageRequest & { messageId: string },
+    ack?: (response: SocketAck<Message>) => void
+  ) => {
+    const respond = typeof ack === 'function' ? ack : undefined;
 
-      // Emit delivery confirmation to sender
-      socket.emit('message_delivered', {
-        messageId: message.id,
-        deliveredAt: message.deliveredAt,
-      });
+    try {
+      const message = await editMessage(data.messageId, socket.userId!, data.content);
 
-      logger.info('Real-time message sent:', {
+      // Let everyone in the conversation update the message in place, with the strictest
+      // read-state view; only the editor's ack carries the full copy
+      io.to(message.conversationId).emit('message_edited', redactReadState(message, message.senderId, false));
+
+      logger.info('Message edited via socket:', {
         messageId: message.id,
-        conversationId,
+        conversationId: message.conversationId,
         senderId: socket.userId,
-        messageType: message.messageType,
       });
+
+      respond?.({ success: true, data: message });
+    } catch (error) {
+      respondWithError(respond, socket, error, 'Failed to edit message');
+    }
+  });
+
+  // Delete message for me or for everyone; the optional ack receives the deletion or a structured error
+  socket.on('delete_message', async (
+    data: DeleteMessageRequest & { messageId: string },
+    ack?: (response: SocketAck<MessageDeletedEvent>) => void
+  ) => {
+    const respond = typeof ack === 'function' ? ack : undefined;
+
+    try {
+      const scope = data.scope === 'everyone' ? 'everyone' : 'me';
+      const message = scope === 'everyone'
+        ? await deleteMessageForEveryone(data.messageId, socket.userId!)
+        : await deleteMessageForMe(data.messageId, socket.userId!);
+
+      const deletedEvent: MessageDeletedEvent = {
+        messageId: data.messageId,
+        conversationId: message.conversationId,
+        scope,
+        deletedAt: new Date(),
+      };
+
+      // Everyone sees the tombstone; a delete for me only syncs the caller's other devices
+      if (scope === 'everyone') {
+        io.to(message.conversationId).emit('message_deleted', deletedEvent);
+      } else {
+        io.to(userRoom(socket.userId!)).emit('message_deleted', deletedEvent);
+      }
+
+      logger.info('Message deleted via socket:', {
+        messageId: data.messageId,
+        conversationId: message.conversationId,
+        userId: socket.userId,
+        scope,
+      });
+
+      respond?.({ success: true, data: deletedEvent });
     } catch (error) {
-      logger.error('Error sending message:', error);
-      socket.emit('error', { message: 'Failed to send message' });
+      respondWithError(respond, socket, error, 'Failed to delete message');
+    }
+  });
+
+  // Save a draft (sent by clients once typing pauses) and hand it to the user's other devices
+  socket.on('update_draft', async (
+    data: UpdateDraftRequest & { conversationId: string },
+    ack?: (response: SocketAck<ConversationDraft>) => void
+  ) => {
+    const respond = typeof ack === 'function' ? ack : undefined;
+
+    try {
+      const draft = await saveDraft(data.conversationId, socket.userId!, String(data.content ?? ''));
+
+      // The device that typed it already shows the text
+      socket.to(userRoom(socket.userId!)).emit('draft_updated', draft);
+
+      respond?.({ success: true, data: draft });
+    } catch (error) {
+      respondWithError(respond, socket, error, 'Failed to save draft');
+    }
+  });
+
+  // Pin a message for everyone in the conversation
+  socket.on('pin_message', async (messageId: string, ack?: (response: SocketAck<PinnedMessage>) => void) => {
+    const respond = typeof ack === 'function' ? ack : undefined;
+
+    try {
+      const { pin, created } = await pinMessage(messageId, socket.userId!);
+
+      if (created) {
+        io.to(pin.conversationId).emit('message_pinned', pin);
+
+        logger.info('Message pinned:', {
+          messageId,
+          conversationId: pin.conversationId,
+          pinnedBy: socket.userId,
+        });
+      }
+
+      respond?.({ success: true, data: pin });
+    } catch (error) {
+      respondWithError(respond, socket, error, 'Failed to pin message');
+    }
+  });
+
+  socket.on('unpin_message', async (messageId: string, ack?: (response: SocketAck<MessageUnpinnedEvent>) => void) => {
+    const respond = typeof ack === 'function' ? ack : undefined;
+
+    try {
+      const event = await unpinMessage(messageId, socket.userId!);
+
+      io.to(event.conversationId).emit('message_unpinned', event);
+
+      logger.info('Message unpinned:', {
+        messageId,
+        conversationId: event.conversationId,
+        unpinnedBy: socket.userId,
+      });
+
+      respond?.({ success: true, data: event });
+    } catch (error) {
+      respondWithError(respond, socket, error, 'Failed to unpin message');
     }
   });
 
@@ -145,9 +269,6 @@ export const setupMessageHandlers = (io: SocketIOServer, socket: AuthenticatedSo
       // Find message and verify user is participant
       const message = await prisma.message.findFirst({
         where: { id: messageId },
-        include: {
-          conversation: true,
-        },
       });
 
       if (!message) {
@@ -156,53 +277,14 @@ export const setupMessageHandlers = (io: SocketIOServer, socket: AuthenticatedSo
       }
 
       // Verify user is participant and not the sender
-      const isParticipant = message.conversation.participantOne === socket.userId || 
-                           message.conversation.participantTwo === socket.userId;
+      const membership = await getMembership(message.conversationId, socket.userId!);
       
-      if (!isParticipant || message.senderId === socket.userId) {
+      if (!membership || message.senderId === socket.userId) {
         return; // Silently ignore invalid requests
       }
 
-      // Update message read status
-      await prisma.message.update({
-        where: { id: messageId },
-        data: {
-          isRead: true,
-          readAt: new Date(),
-        },
-      });
-
-      // Create read receipt
-      const readReceipt = await prisma.messageReadReceipt.upsert({
-        where: {
-          messageId_userId: {
-            messageId,
-            userId: socket.userId!,
-          },
-        },
-        update: {
-          readAt: new Date(),
-        },
-        create: {
-          messageId,
-          userId: socket.userId!,
-          readAt: new Date(),
-        },
-      });
-
-      // Emit read receipt to conversation
-      io.to(message.conversation.id).emit('message_read', {
-        messageId,
-        userId: socket.userId,
-        readAt: readReceipt.readAt,
-      });
-
-      // Also emit read receipt update
-      io.to(message.conversation.id).emit('read_receipt_updated', {
-        messageId,
-        userId: socket.userId,
-        readAt: readReceipt.readAt,
-      });
+      // Receipts reach other members only if the reader shares them
+      await markMessagesRead(socket.userId!, [messageId]);
 
       logger.info('Message marked as read via socket:', {
         messageId,
@@ -214,69 +296,50 @@ export const setupMessageHandlers = (io: SocketIOServer, socket: AuthenticatedSo
     }
   });
 
+  // Confirm receipt of messages pushed to this client
+  socket.on('mark_delivered', async (data: MarkDeliveredRequest) => {
+    try {
+      const messageIds = Array.isArray(data?.messageIds)
+        ? data.messageIds.filter(id => typeof id === 'string').slice(0, VALIDATION.SYNC.MAX_CHANGES)
+        : [];
+
+      const deliveredIds = await markMessagesDelivered(socket.userId!, messageIds);
+
+      if (deliveredIds.length > 0) {
+        logger.info('Messages marked as delivered:', {
+          userId: socket.userId,
+          messageCount: deliveredIds.length,
+        });
+      }
+    } catch (error) {
+      logger.error('Error marking messages as delivered:', error);
+      socket.emit('error', { message: 'Failed to mark messages as delivered' });
+    }
+  });
+
   // Mark multiple messages as read
   socket.on('mark_conversation_read', async (conversationId: string) => {
     try {
       // Verify user is participant in conversation
-      const conversation = await prisma.conversation.findFirst({
-        where: {
-          id: conversationId,
-          OR: [
-            { participantOne: socket.userId! },
-            { participantTwo: socket.userId! },
-          ],
-        },
-      });
+      const conversation = await findMemberConversation(conversationId, socket.userId!);
 
       if (!conversation) {
         socket.emit('error', { message: 'Conversation not found' });
         return;
       }
 
-      // Get all unread messages in conversation that user didn't send
+      // Get all messages in conversation the user didn't send and hasn't read yet
       const unreadMessages = await prisma.message.findMany({
         where: {
           conversationId,
           senderId: { not: socket.userId! },
-          isRead: false,
+          readReceipts: { none: { userId: socket.userId! } },
         },
+        select: { id: true },
       });
 
       if (unreadMessages.length > 0) {
-        // Mark all messages as read
-        await prisma.message.updateMany({
-          where: {
-            conversationId,
-            senderId: { not: socket.userId! },
-            isRead: false,
-          },
-          data: {
-            isRead: true,
-            readAt: new Date(),
-          },
-        });
-
-        // Create read receipts for all messages
-        const readReceiptData = unreadMessages.map(msg => ({
-          messageId: msg.id,
-          userId: socket.userId!,
-          readAt: new Date(),
-        }));
-
-        await prisma.messageReadReceipt.createMany({
-          data: readReceiptData,
-          skipDuplicates: true,
-        });
-
-        // Emit read receipts for all messages
-        const readAt = new Date();
-        unreadMessages.forEach(msg => {
-          io.to(conversationId).emit('message_read', {
-            messageId: msg.id,
-            userId: socket.userId,
-            readAt,
-          });
-        });
+        await markMessagesRead(socket.userId!, unreadMessages.map(msg => msg.id));
 
         logger.info('Conversation marked as read:', {
           conversationId,
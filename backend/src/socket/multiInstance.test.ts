@@ -0,0 +1,200 @@
+import 'dotenv/config';
+import path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { io as connectClient, Socket } from 'socket.io-client';
+import { PrismaClient } from '@prisma/client';
+import type { Conversation, User } from '@prisma/client';
+import { generateTokens, hashPassword } from '../utils/auth';
+import { PRESENCE } from '@toff/shared';
+
+// Runs two backend instances against the same Postgres and Redis, connects one user to each
+// and checks that broadcasts, typing and presence cross between them. Skipped unless both
+// DATABASE_URL and REDIS_URL are set, e.g. in backend/.env.
+
+const backendDir = path.resolve(__dirname, '../..');
+const ports = (process.env.HARNESS_PORTS || '5101,5102').split(',').map(port => parseInt(port, 10));
+const EVENT_TIMEOUT_MS = 5000;
+const STARTUP_TIMEOUT_MS = 30000;
+
+const describeWithServices = process.env.DATABASE_URL && process.env.REDIS_URL ? describe : describe.skip;
+
+const startInstance = (port: number): ChildProcess => {
+  return spawn(process.execPath, ['-r', 'ts-node/register', 'src/index.ts'], {
+    cwd: backendDir,
+    env: { ...process.env, PORT: String(port), TS_NODE_TRANSPILE_ONLY: 'true' },
+    stdio: ['ignore', 'ignore', 'inherit'],
+  });
+};
+
+const waitForHealth = async (port: number) => {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(`http://localhost:${port}/health`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  throw new Error(`Instance on port ${port} did not become healthy`);
+};
+
+const connectSocket = (port: number, token: string): Promise<Socket> => {
+  return new Promise((resolve, reject) => {
+    const socket = connectClient(`http://localhost:${port}`, {
+      auth: { token },
+      transports: ['websocket'],
+      forceNew: true,
+    });
+    socket.once('connect', () => resolve(socket));
+    socket.once('connect_error', reject);
+  });
+};
+
+const waitForEvent = <T>(socket: Socket, event: string, predicate: (data: T) => boolean = () => true): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, handler);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, EVENT_TIMEOUT_MS);
+
+    const handler = (data: T) => {
+      if (!predicate(data)) return;
+      clearTimeout(timer);
+      socket.off(event, handler);
+      resolve(data);
+    };
+
+    socket.on(event, handler);
+  });
+};
+
+const createFixtures = async (prisma: PrismaClient) => {
+  const suffix = Date.now().toString(36);
+  const passwordHash = await hashPassword('harness-password1');
+
+  const [alice, bob] = await Promise.all(['a', 'b'].map(name => prisma.user.create({
+    data: {
+      email: `harness_${name}_${suffix}@example.com`,
+      username: `harness_${name}_${suffix}`.slice(0, 20),
+      displayName: `Harness ${name.toUpperCase()}`,
+      passwordHash,
+    },
+  })));
+
+  await prisma.friendship.create({
+    data: {
+      requesterId: alice.id,
+      addresseeId: bob.id,
+      status: 'ACCEPTED',
+    },
+  });
+
+  const conversation = await prisma.conversation.create({
+    data: {
+      type: 'DIRECT',
+      participantOne: alice.id,
+      participantTwo: bob.id,
+      members: {
+        create: [{ userId: alice.id }, { userId: bob.id }],
+      },
+    },
+  });
+
+  return { alice, bob, conversation };
+};
+
+describeWithServices('multiple backend instances', () => {
+  // Created in beforeAll, so a skipped run never loads the database client
+  let prisma: PrismaClient;
+  const instances: ChildProcess[] = [];
+  const sockets: Socket[] = [];
+  let alice: User;
+  let bob: User;
+  let conversation: Conversation;
+  let aliceSocket: Socket;
+  let bobSocket: Socket;
+  let aliceOnline: Promise<{ userId: string }>;
+  let messageId = '';
+
+  const tokenFor = (user: User) =>
+    generateTokens({ userId: user.id, email: user.email, username: user.username }).accessToken;
+
+  beforeAll(async () => {
+    prisma = new PrismaClient();
+    ({ alice, bob, conversation } = await createFixtures(prisma));
+
+    instances.push(...ports.map(startInstance));
+    await Promise.all(ports.map(waitForHealth));
+
+    // Alice talks to the first instance, Bob to the second
+    bobSocket = await connectSocket(ports[1], tokenFor(bob));
+    sockets.push(bobSocket);
+    aliceOnline = waitForEvent<{ userId: string }>(bobSocket, 'friend_online', d => d.userId === alice.id);
+    aliceSocket = await connectSocket(ports[0], tokenFor(alice));
+    sockets.push(aliceSocket);
+  }, STARTUP_TIMEOUT_MS + EVENT_TIMEOUT_MS);
+
+  afterAll(async () => {
+    sockets.forEach(socket => socket.disconnect());
+    instances.forEach(instance => instance.kill('SIGTERM'));
+
+    if (conversation) {
+      await prisma.conversation.delete({ where: { id: conversation.id } }).catch(() => undefined);
+    }
+    await prisma.user.deleteMany({ where: { id: { in: [alice, bob].filter(Boolean).map(user => user.id) } } });
+    await prisma.$disconnect();
+  });
+
+  it('carries presence across instances', async () => {
+    await aliceOnline;
+  });
+
+  it('broadcasts messages to the other instance', async () => {
+    const received = waitForEvent<{ id: string; content: string }>(bobSocket, 'message_received', m => m.content === 'hello from instance A');
+    const ack = await aliceSocket.timeout(EVENT_TIMEOUT_MS).emitWithAck('send_message', {
+      conversationId: conversation.id,
+      content: 'hello from instance A',
+      messageType: 'text',
+      clientMessageId: `harness-${conversation.id}`,
+    });
+    expect(ack.success).toBe(true);
+    messageId = (await received).id;
+  }, EVENT_TIMEOUT_MS * 2);
+
+  it('returns delivery confirmations to the sender', async () => {
+    const delivered = waitForEvent<{ messageId: string }>(aliceSocket, 'message_delivered', d => d.messageId === messageId);
+    bobSocket.emit('mark_delivered', { messageIds: [messageId] });
+    await delivered;
+  }, EVENT_TIMEOUT_MS * 2);
+
+  it('carries typing indicators across instances', async () => {
+    aliceSocket.emit('join_conversation', conversation.id);
+    bobSocket.emit('join_conversation', conversation.id);
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const typing = waitForEvent<{ userId: string }>(bobSocket, 'user_typing', d => d.userId === alice.id);
+    aliceSocket.emit('typing_start', conversation.id);
+    await typing;
+  }, EVENT_TIMEOUT_MS * 2);
+
+  it('keeps a user online while another device is connected', async () => {
+    const aliceSecondDevice = await connectSocket(ports[1], tokenFor(alice));
+    sockets.push(aliceSecondDevice);
+
+    let wentOffline = false;
+    const onOffline = (d: { userId: string }) => {
+      if (d.userId === alice.id) wentOffline = true;
+    };
+    bobSocket.on('friend_offline', onOffline);
+
+    aliceSocket.disconnect();
+    await new Promise(resolve => setTimeout(resolve, PRESENCE.OFFLINE_GRACE_MS + 1000));
+    bobSocket.off('friend_offline', onOffline);
+
+    expect(wentOffline).toBe(false);
+  }, PRESENCE.OFFLINE_GRACE_MS + EVENT_TIMEOUT_MS);
+});
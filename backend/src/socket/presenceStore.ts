@@ -0,0 +1,215 @@
+import { isRedisEnabled, getRedisClient, RedisClient } from '../config/redis';
+import { logger } from '../config/logger';
+import { PRESENCE } from '@toff/shared';
+
+// Ephemeral presence state shared by all socket handlers; nothing here touches the database
+export interface PresenceStore {
+  // Record a keystroke; resolves true when a user_typing broadcast is due
+  touchTyping(conversationId: string, userId: string): Promise<boolean>;
+  // Resolves true if the user was typing
+  stopTyping(conversationId: string, userId: string): Promise<boolean>;
+  isTyping(conversationId: string, userId: string): Promise<boolean>;
+  // Register a live socket; resolves the user's connection count afterwards
+  addConnection(userId: string, socketId: string): Promise<number>;
+  // Forget a closed socket; resolves the user's remaining connection count
+  removeConnection(userId: string, socketId: string): Promise<number>;
+  // Which of the given users have at least one live socket
+  getConnectedUserIds(userIds: string[]): Promise<Set<string>>;
+}
+
+interface TypingEntry {
+  expiresAt: number;
+  nextBroadcastAt: number;
+  timer: NodeJS.Timeout;
+}
+
+// Default store for a single instance
+export class InMemoryPresenceStore implements PresenceStore {
+  private typing = new Map<string, TypingEntry>();
+  private connections = new Map<string, Set<string>>();
+
+  private key(conversationId: string, userId: string) {
+    return `${conversationId}:${userId}`;
+  }
+
+  async touchTyping(conversationId: string, userId: string): Promise<boolean> {
+    const key = this.key(conversationId, userId);
+    const now = Date.now();
+    const existing = this.typing.get(key);
+
+    if (existing) clearTimeout(existing.timer);
+
+    const broadcastDue = !existing || existing.nextBroadcastAt <= now;
+    const timer = setTimeout(() => this.typing.delete(key), PRESENCE.TYPING_TTL_MS);
+    timer.unref();
+
+    this.typing.set(key, {
+      expiresAt: now + PRESENCE.TYPING_TTL_MS,
+      nextBroadcastAt: broadcastDue ? now + PRESENCE.TYPING_BROADCAST_INTERVAL_MS : existing!.nextBroadcastAt,
+      timer,
+    });
+
+    return broadcastDue;
+  }
+
+  async stopTyping(conversationId: string, userId: string): Promise<boolean> {
+    const key = this.key(conversationId, userId);
+    const existing = this.typing.get(key);
+    if (!existing) return false;
+
+    clearTimeout(existing.timer);
+    this.typing.delete(key);
+    return existing.expiresAt > Date.now();
+  }
+
+  async isTyping(conversationId: string, userId: string): Promise<boolean> {
+    const existing = this.typing.get(this.key(conversationId, userId));
+    return !!existing && existing.expiresAt > Date.now();
+  }
+
+  async addConnection(userId: string, socketId: string): Promise<number> {
+    const sockets = this.connections.get(userId) ?? new Set<string>();
+    sockets.add(socketId);
+    this.connections.set(userId, sockets);
+    return sockets.size;
+  }
+
+  async removeConnection(userId: string, socketId: string): Promise<number> {
+    const sockets = this.connections.get(userId);
+    if (!sockets) return 0;
+
+    sockets.delete(socketId);
+    if (sockets.size === 0) this.connections.delete(userId);
+    return sockets.size;
+  }
+
+  async getConnectedUserIds(userIds: string[]): Promise<Set<string>> {
+    return new Set(userIds.filter(userId => this.connections.has(userId)));
+  }
+}
+
+// Store shared by every instance when Redis is configured; keys expire on their own.
+// Connections are scored by expiry and refreshed by the owning instance, so sockets
+// of a crashed instance age out instead of keeping their users online forever.
+export class RedisPresenceStore implements PresenceStore {
+  private localConnections = new Map<string, Set<string>>();
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(private client: RedisClient) {
+    this.heartbeat = setInterval(() => {
+      this.refreshConnections().catch(error => {
+        logger.error('Error refreshing presence connections:', error);
+      });
+    }, PRESENCE.CONNECTION_TTL_MS / 3);
+    this.heartbeat.unref();
+  }
+
+  private connectionsKey(userId: string) {
+    return `presence:connections:${userId}`;
+  }
+
+  private typingKey(conversationId: string, userId: string) {
+    return `presence:typing:${conversationId}:${userId}`;
+  }
+
+  private throttleKey(conversationId: string, userId: string) {
+    return `presence:typing-broadcast:${conversationId}:${userId}`;
+  }
+
+  async touchTyping(conversationId: string, userId: string): Promise<boolean> {
+    const [, throttled] = await this.client.multi()
+      .set(this.typingKey(conversationId, userId), '1', {
+        expiration: { type: 'PX', value: PRESENCE.TYPING_TTL_MS },
+      })
+      .set(this.throttleKey(conversationId, userId), '1', {
+        expiration: { type: 'PX', value: PRESENCE.TYPING_BROADCAST_INTERVAL_MS },
+        condition: 'NX',
+      })
+      .exec();
+
+    // NX only succeeds once per broadcast interval
+    return String(throttled) === 'OK';
+  }
+
+  async stopTyping(conversationId: string, userId: string): Promise<boolean> {
+    const [deleted] = await this.client.multi()
+      .del(this.typingKey(conversationId, userId))
+      .del(this.throttleKey(conversationId, userId))
+      .exec();
+
+    return Number(deleted) > 0;
+  }
+
+  async isTyping(conversationId: string, userId: string): Promise<boolean> {
+    return Number(await this.client.exists(this.typingKey(conversationId, userId))) > 0;
+  }
+
+  async addConnection(userId: string, socketId: string): Promise<number> {
+    const sockets = this.localConnections.get(userId) ?? new Set<string>();
+    sockets.add(socketId);
+    this.localConnections.set(userId, sockets);
+
+    const key = this.connectionsKey(userId);
+    const now = Date.now();
+    const [, , count] = await this.client.multi()
+      .zRemRangeByScore(key, '-inf', now)
+      .zAdd(key, { score: now + PRESENCE.CONNECTION_TTL_MS, value: socketId })
+      .zCard(key)
+      .pExpire(key, PRESENCE.CONNECTION_TTL_MS)
+      .exec();
+
+    return Number(count);
+  }
+
+  async removeConnection(userId: string, socketId: string): Promise<number> {
+    const sockets = this.localConnections.get(userId);
+    sockets?.delete(socketId);
+    if (sockets?.size === 0) this.localConnections.delete(userId);
+
+    const key = this.connectionsKey(userId);
+    const [, , count] = await this.client.multi()
+      .zRem(key, socketId)
+      .zRemRangeByScore(key, '-inf', Date.now())
+      .zCard(key)
+      .exec();
+
+    return Number(count);
+  }
+
+  async getConnectedUserIds(userIds: string[]): Promise<Set<string>> {
+    if (userIds.length === 0) return new Set();
+
+    const now = Date.now();
+    const multi = this.client.multi();
+    userIds.forEach(userId => multi.zCount(this.connectionsKey(userId), now, '+inf'));
+    const counts = await multi.exec();
+
+    return new Set(userIds.filter((_, index) => Number(counts[index]) > 0));
+  }
+
+  // Push the expiry of this instance's sockets forward
+  private async refreshConnections() {
+    if (this.localConnections.size === 0) return;
+
+    const expiresAt = Date.now() + PRESENCE.CONNECTION_TTL_MS;
+    const multi = this.client.multi();
+    this.localConnections.forEach((sockets, userId) => {
+      const key = this.connectionsKey(userId);
+      multi.zAdd(key, Array.from(sockets, socketId => ({ score: expiresAt, value: socketId })));
+      multi.pExpire(key, PRESENCE.CONNECTION_TTL_MS);
+    });
+    await multi.exec();
+  }
+}
+
+let presenceStore: PresenceStore = new InMemoryPresenceStore();
+
+// Switch to the shared Redis store when configured; call once at startup
+export const initPresenceStore = async () => {
+  if (!isRedisEnabled()) return;
+
+  presenceStore = new RedisPresenceStore(await getRedisClient());
+  logger.info('Presence store using Redis');
+};
+
+export const getPresenceStore = (): PresenceStore => presenceStore;
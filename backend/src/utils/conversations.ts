@@ -0,0 +1,180 @@
+import { prisma } from '../config/database';
+import { redactLastSeen, redactReadState } from './privacy';
+import { emitToUsers } from '../socket/emitter';
+import type { PrivacyViewer } from './privacy';
+import { DISAPPEARING_MESSAGES } from '@toff/shared';
+import type { ConversationDraft, DisappearingTimer } from '@toff/shared';
+
+// Public user fields exposed for conversation participants; email stays private to friends
+export const participantSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+  isOnline: true,
+  lastSeen: true,
+  lastSeenVisibility: true,
+} as const;
+
+export const memberInclude = {
+  user: {
+    select: participantSelect,
+  },
+} as const;
+
+// Find a conversation only if the user is one of its members
+export const findMemberConversation = (conversationId: string, userId: string) => {
+  return prisma.conversation.findFirst({
+    where: {
+      id: conversationId,
+      members: { some: { userId } },
+    },
+  });
+};
+
+export const getMembership = (conversationId: string, userId: string) => {
+  return prisma.conversationMember.findUnique({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId,
+      },
+    },
+  });
+};
+
+export const isConversationMember = async (conversationId: string, userId: string): Promise<boolean> => {
+  const membership = await getMembership(conversationId, userId);
+  return !!membership;
+};
+
+export const getMemberIds = async (conversationId: string): Promise<string[]> => {
+  const members = await prisma.conversationMember.findMany({
+    where: { conversationId },
+    select: { userId: true },
+  });
+  return members.map(member => member.userId);
+};
+
+// Timer option matching a stored message lifetime
+export const formatDisappearingTimer = (seconds: number | null): DisappearingTimer => {
+  const timers = Object.entries(DISAPPEARING_MESSAGES.TIMERS) as [DisappearingTimer, number | null][];
+  return timers.find(([, ttl]) => ttl === seconds)?.[0] ?? 'off';
+};
+
+// Include only the requesting user's settings row with a conversation
+export const settingsInclude = (userId: string) => ({
+  settings: {
+    where: { userId },
+  },
+});
+
+export const formatConversationSettings = (conversationId: string, setting: any) => ({
+  conversationId,
+  mutedUntil: setting?.mutedUntil ?? null,
+  archived: !!setting?.archivedAt,
+  pinned: setting?.pinOrder !== null && setting?.pinOrder !== undefined,
+  pinOrder: setting?.pinOrder ?? null,
+});
+
+// Include only the requesting user's draft with a conversation
+export const draftInclude = (userId: string) => ({
+  drafts: {
+    where: { userId },
+  },
+});
+
+// A missing draft is reported as cleared
+export const formatDraft = (conversationId: string, draft: { content: string; updatedAt: Date } | null): ConversationDraft => ({
+  conversationId,
+  content: draft?.content ?? '',
+  updatedAt: draft?.updatedAt ?? new Date(),
+});
+
+// A new message brings archived conversations back, except for members who muted them
+export const unarchiveForNewMessage = async (conversationId: string) => {
+  const now = new Date();
+  const archived = await prisma.conversationSetting.findMany({
+    where: {
+      conversationId,
+      archivedAt: { not: null },
+      OR: [
+        { mutedUntil: null },
+        { mutedUntil: { lte: now } },
+      ],
+    },
+  });
+
+  if (archived.length === 0) return;
+
+  await prisma.conversationSetting.updateMany({
+    where: { id: { in: archived.map(setting => setting.id) } },
+    data: { archivedAt: null },
+  });
+
+  // Every device of each member moves the conversation back out of the archive
+  archived.forEach(setting => {
+    emitToUsers(
+      [setting.userId],
+      'conversation_settings_updated',
+      formatConversationSettings(conversationId, { ...setting, archivedAt: null })
+    );
+  });
+};
+
+// Pinned conversations first in their manual order, then everything else by latest activity
+export const compareConversations = (a: any, b: any) => {
+  const aPin = a.settings?.pinOrder ?? null;
+  const bPin = b.settings?.pinOrder ?? null;
+
+  if (aPin !== null || bPin !== null) {
+    if (aPin === null) return 1;
+    if (bPin === null) return -1;
+    return aPin - bPin;
+  }
+
+  return new Date(b.lastMessageAt ?? 0).getTime() - new Date(a.lastMessageAt ?? 0).getTime();
+};
+
+// Owners and admins can change group details and membership
+export const canManageGroup = (role: string) => role === 'OWNER' || role === 'ADMIN';
+
+// Without a viewer, member details are shaped for broadcast to anyone in the conversation
+export const formatMember = (member: any, viewer: PrivacyViewer | null = null) => ({
+  id: member.id,
+  conversationId: member.conversationId,
+  userId: member.userId,
+  role: member.role.toLowerCase(),
+  joinedAt: member.joinedAt,
+  user: member.user && redactLastSeen(member.user, viewer),
+});
+
+// Shape a conversation (with members included) for the requesting user
+export const formatConversation = (conv: any, userId: string, viewer: PrivacyViewer | null = null) => {
+  const members = (conv.members || []).map((member: any) => formatMember(member, viewer));
+  const lastMessage = conv.messages?.[0] || null;
+  const otherParticipant = conv.type === 'DIRECT'
+    ? members.find((member: any) => member.userId !== userId)?.user || null
+    : null;
+
+  return {
+    id: conv.id,
+    type: conv.type.toLowerCase(),
+    name: conv.name,
+    avatarUrl: conv.avatarUrl,
+    participantOne: conv.participantOne,
+    participantTwo: conv.participantTwo,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    lastMessageAt: conv.lastMessageAt,
+    otherParticipant,
+    members,
+    lastMessage: lastMessage && viewer
+      ? redactReadState(lastMessage, viewer.userId, viewer.readReceiptsEnabled)
+      : lastMessage,
+    unreadCount: conv._count?.messages ?? 0,
+    disappearingTimer: formatDisappearingTimer(conv.messageTtlSeconds ?? null),
+    ...(conv.settings && { settings: formatConversationSettings(conv.id, conv.settings[0]) }),
+    ...(conv.drafts && { draft: conv.drafts[0] ? formatDraft(conv.id, conv.drafts[0]) : null }),
+  };
+};
@@ -0,0 +1,88 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { emitToConversation, emitToUsers } from '../socket/emitter';
+import { getMemberIds } from './conversations';
+import { deleteMessageAttachment } from './messages';
+import type { MessagesExpiredEvent, MessageUnpinnedEvent } from '@toff/shared';
+
+// Messages deleted per query while sweeping
+const EXPIRED_BATCH_SIZE = 100;
+
+// How long sync can still report a message as expired; clients offline for longer resync from scratch
+const EXPIRED_RECORD_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Hard-delete disappearing messages whose timer ran out and tell members to drop them (run periodically)
+export const deleteExpiredMessages = async () => {
+  try {
+    let deletedCount = 0;
+
+    await prisma.expiredMessage.deleteMany({
+      where: { expiredAt: { lt: new Date(Date.now() - EXPIRED_RECORD_RETENTION_MS) } },
+    });
+
+    while (true) {
+      const expired = await prisma.message.findMany({
+        where: { expiresAt: { lte: new Date() } },
+        select: { id: true, conversationId: true, fileUrl: true },
+        orderBy: { expiresAt: 'asc' },
+        take: EXPIRED_BATCH_SIZE,
+      });
+
+      if (expired.length === 0) break;
+
+      // Attachments go first; if the sweep stops halfway the rows are still there to retry
+      const expiredIds = expired.map(message => message.id);
+      await Promise.all(expired
+        .filter(message => message.fileUrl)
+        .map(message => deleteMessageAttachment(message.fileUrl!, expiredIds)));
+
+      // Receipts, deliveries, reactions, revisions, pins and stars cascade with the rows.
+      // Each removal is recorded so devices that were offline learn about it through sync.
+      const { count, unpinned } = await prisma.$transaction(async tx => {
+        const pins = await tx.pinnedMessage.findMany({
+          where: { messageId: { in: expiredIds } },
+          select: { conversationId: true, messageId: true },
+        });
+
+        await tx.expiredMessage.createMany({
+          data: expired.map(message => ({ messageId: message.id, conversationId: message.conversationId })),
+          skipDuplicates: true,
+        });
+
+        const { count } = await tx.message.deleteMany({
+          where: { id: { in: expiredIds } },
+        });
+
+        return { count, unpinned: pins };
+      });
+      deletedCount += count;
+
+      const idsByConversation = new Map<string, string[]>();
+      expired.forEach(message => {
+        idsByConversation.set(message.conversationId, [
+          ...(idsByConversation.get(message.conversationId) || []),
+          message.id,
+        ]);
+      });
+
+      for (const [conversationId, messageIds] of idsByConversation) {
+        const event: MessagesExpiredEvent = { conversationId, messageIds };
+        emitToUsers(await getMemberIds(conversationId), 'messages_expired', event);
+      }
+
+      // An expired message can't stay pinned
+      unpinned.forEach(pin => {
+        const event: MessageUnpinnedEvent = { ...pin, unpinnedBy: null };
+        emitToConversation(pin.conversationId, 'message_unpinned', event);
+      });
+
+      if (expired.length < EXPIRED_BATCH_SIZE) break;
+    }
+
+    if (deletedCount > 0) {
+      logger.info('Expired messages deleted:', { count: deletedCount });
+    }
+  } catch (error) {
+    logger.error('Error deleting expired messages:', error);
+  }
+};
@@ -0,0 +1,19 @@
+import { prisma } from '../config/database';
+
+// IDs of everyone the user has an accepted friendship with
+export const getFriendIds = async (userId: string): Promise<string[]> => {
+  const friendships = await prisma.friendship.findMany({
+    where: {
+      OR: [
+        { requesterId: userId, status: 'ACCEPTED' },
+        { addresseeId: userId, status: 'ACCEPTED' },
+      ],
+    },
+    select: {
+      requesterId: true,
+      addresseeId: true,
+    },
+  });
+
+  return friendships.map(f => (f.requesterId === userId ? f.addresseeId : f.requesterId));
+};
@@ -0,0 +1,332 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import type { LookupFunction } from 'net';
+import { createAppError } from '../middleware/errorHandler';
+import { FILE_UPLOAD } from '@toff/shared';
+
+// Limits for fetching pages on behalf of users
+export const LINK_PREVIEW_TIMEOUT_MS = 5000;
+const LINK_PREVIEW_MAX_HTML_BYTES = 512 * 1024;
+const LINK_PREVIEW_MAX_OEMBED_BYTES = 64 * 1024;
+const LINK_PREVIEW_MAX_REDIRECTS = 3;
+const LINK_PREVIEW_TITLE_MAX_LENGTH = 200;
+const LINK_PREVIEW_DESCRIPTION_MAX_LENGTH = 500;
+const USER_AGENT = 'TOffLinkPreview/1.0 (+link previews)';
+
+export interface FetchOptions {
+  timeoutMs?: number;
+  // Only for tests and local development against a fixture server on localhost
+  allowPrivateNetwork?: boolean;
+}
+
+export interface LinkMetadata {
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+export interface FetchedImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and other reserved ranges
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Resolve through DNS and refuse hosts with any non-public address. The socket connects to
+// the address checked here, so a second lookup can't swap in a private one.
+const createSafeLookup = (allowPrivateNetwork: boolean): LookupFunction => (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true as const }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    if (addresses.length === 0 || (!allowPrivateNetwork && addresses.some(entry => !isPublicAddress(entry.address)))) {
+      return callback(createAppError(`Refusing to fetch ${hostname}: not a public address`, 422), '', 0);
+    }
+
+    // Callers asking for every address (happy eyeballs) get the checked list, others the first one
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const parseFetchUrl = (rawUrl: string, allowPrivateNetwork: boolean) => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw createAppError('Invalid URL', 422);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw createAppError('Only http and https URLs are fetched', 422);
+  }
+
+  if (url.username || url.password) {
+    throw createAppError('URLs with credentials are not fetched', 422);
+  }
+
+  if (!allowPrivateNetwork) {
+    // Literal IPs skip the lookup, so they are checked here
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && !isPublicAddress(hostname)) {
+      throw createAppError('Refusing to fetch a non-public address', 422);
+    }
+
+    if (url.port && url.port !== '80' && url.port !== '443') {
+      throw createAppError('Only the default web ports are fetched', 422);
+    }
+  }
+
+  return url;
+};
+
+interface FetchResult {
+  url: URL;
+  contentType: string;
+  body: Buffer;
+}
+
+// GET a URL with redirects re-checked hop by hop, a deadline and a cap on the body size
+const fetchLimited = async (
+  rawUrl: string,
+  { maxBytes, accept }: { maxBytes: number; accept: string },
+  options: FetchOptions
+): Promise<FetchResult> => {
+  const allowPrivateNetwork = !!options.allowPrivateNetwork;
+  const timeoutMs = options.timeoutMs ?? LINK_PREVIEW_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+  let url = parseFetchUrl(rawUrl, allowPrivateNetwork);
+
+  for (let redirects = 0; ; redirects++) {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw createAppError('Timed out', 422);
+    }
+
+    const response = await new Promise<{ status: number; location?: string; contentType: string; body: Buffer }>((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const request = client.get(url, {
+        lookup: createSafeLookup(allowPrivateNetwork),
+        headers: {
+          'User-Agent': USER_AGENT,
+          Accept: accept,
+        },
+        timeout: remainingMs,
+      }, res => {
+        const status = res.statusCode || 0;
+        const contentType = (res.headers['content-type'] || '').toLowerCase();
+
+        if (status >= 300 && status < 400) {
+          res.resume();
+          resolve({ status, location: res.headers.location, contentType, body: Buffer.alloc(0) });
+          return;
+        }
+
+        const declaredLength = Number(res.headers['content-length']);
+        if (declaredLength > maxBytes) {
+          request.destroy(createAppError('Response too large', 422));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        res.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > maxBytes) {
+            request.destroy(createAppError('Response too large', 422));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on('end', () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+        res.on('error', reject);
+      });
+
+      // The deadline covers the whole exchange, not just idle time
+      const timer = setTimeout(() => request.destroy(createAppError('Timed out', 422)), remainingMs);
+      request.on('timeout', () => request.destroy(createAppError('Timed out', 422)));
+      request.on('error', reject);
+      request.on('close', () => clearTimeout(timer));
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      if (!response.location || redirects >= LINK_PREVIEW_MAX_REDIRECTS) {
+        throw createAppError('Too many redirects', 422);
+      }
+      url = parseFetchUrl(new URL(response.location, url).toString(), allowPrivateNetwork);
+      continue;
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw createAppError(`Unexpected status ${response.status}`, 422);
+    }
+
+    return { url, contentType: response.contentType, body: response.body };
+  }
+};
+
+const decodeEntities = (text: string) => text
+  .replace(/&#x([0-9a-f]+);/gi, (match, hex) => safeFromCodePoint(parseInt(hex, 16), match))
+  .replace(/&#(\d+);/g, (match, dec) => safeFromCodePoint(parseInt(dec, 10), match))
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;|&#39;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+const safeFromCodePoint = (codePoint: number, fallback: string) => {
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return fallback;
+  }
+};
+
+const cleanText = (text: string | undefined, maxLength: number) => {
+  if (!text) return null;
+  const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!cleaned) return null;
+  return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1)}…` : cleaned;
+};
+
+const parseAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+
+  return attributes;
+};
+
+interface PageMetadata {
+  meta: Record<string, string>;
+  title?: string;
+  oembedUrl?: string;
+}
+
+// Pull meta tags, the title and the oEmbed discovery link out of a page's markup
+const parsePage = (html: string, pageUrl: URL): PageMetadata => {
+  const meta: Record<string, string> = {};
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let oembedUrl: string | undefined;
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (attributes.rel?.toLowerCase() === 'alternate' &&
+        attributes.type?.toLowerCase() === 'application/json+oembed' && attributes.href) {
+      oembedUrl = resolveUrl(decodeEntities(attributes.href), pageUrl) ?? undefined;
+      break;
+    }
+  }
+
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+
+  return { meta, title, oembedUrl };
+};
+
+const resolveUrl = (value: string | undefined, base: URL) => {
+  if (!value) return null;
+  try {
+    const resolved = new URL(decodeEntities(value.trim()), base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchOEmbed = async (oembedUrl: string, options: FetchOptions) => {
+  try {
+    const { body } = await fetchLimited(oembedUrl, {
+      maxBytes: LINK_PREVIEW_MAX_OEMBED_BYTES,
+      accept: 'application/json',
+    }, options);
+    const data = JSON.parse(body.toString('utf8'));
+    return typeof data === 'object' && data !== null ? data : null;
+  } catch {
+    // oEmbed only fills gaps; the page's own metadata still counts
+    return null;
+  }
+};
+
+// Fetch a page's Open Graph metadata, falling back to oEmbed, Twitter cards and plain HTML
+export const fetchLinkMetadata = async (url: string, options: FetchOptions = {}): Promise<LinkMetadata> => {
+  const page = await fetchLimited(url, {
+    maxBytes: LINK_PREVIEW_MAX_HTML_BYTES,
+    accept: 'text/html,application/xhtml+xml',
+  }, options);
+
+  if (!/^(text\/html|application\/xhtml\+xml)/.test(page.contentType)) {
+    throw createAppError('Not an HTML page', 422);
+  }
+
+  // Anything cut off by the size limit is simply missing
+  const { meta, title, oembedUrl } = parsePage(page.body.toString('utf8'), page.url);
+  const oembed = oembedUrl && (!meta['og:title'] || !meta['og:image'])
+    ? await fetchOEmbed(oembedUrl, options)
+    : null;
+
+  return {
+    title: cleanText(meta['og:title'] || oembed?.title || meta['twitter:title'] || title, LINK_PREVIEW_TITLE_MAX_LENGTH),
+    description: cleanText(
+      meta['og:description'] || meta['twitter:description'] || meta.description,
+      LINK_PREVIEW_DESCRIPTION_MAX_LENGTH
+    ),
+    imageUrl: resolveUrl(
+      meta['og:image:secure_url'] || meta['og:image'] || oembed?.thumbnail_url || meta['twitter:image'],
+      page.url
+    ),
+    siteName: cleanText(meta['og:site_name'] || oembed?.provider_name || page.url.hostname, LINK_PREVIEW_TITLE_MAX_LENGTH),
+  };
+};
+
+// Download a preview image under the same protections, accepting only upload-safe image types
+export const fetchPreviewImage = async (url: string, options: FetchOptions = {}): Promise<FetchedImage> => {
+  const image = await fetchLimited(url, {
+    maxBytes: FILE_UPLOAD.MAX_SIZE.IMAGE,
+    accept: FILE_UPLOAD.ALLOWED_TYPES.IMAGE.join(','),
+  }, options);
+
+  const mimeType = image.contentType.split(';')[0].trim();
+  if (!(FILE_UPLOAD.ALLOWED_TYPES.IMAGE as readonly string[]).includes(mimeType)) {
+    throw createAppError('Unsupported image type', 422);
+  }
+
+  return { buffer: image.body, mimeType };
+};
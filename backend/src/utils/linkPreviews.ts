@@ -0,0 +1,196 @@
+import type { LinkPreview as StoredLinkPreview, LinkPreviewJob } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { deleteFromCloudinary, getCloudinaryAsset, uploadToCloudinary } from '../config/cloudinary';
+import { emitToConversation } from '../socket/emitter';
+import { fetchLinkMetadata, fetchPreviewImage } from './linkPreviewFetcher';
+import type { FetchOptions, LinkMetadata } from './linkPreviewFetcher';
+import { findPreviewUrl, formatMessage, messageInclude } from './messages';
+import { redactReadState } from './privacy';
+
+// How often queued previews are picked up, how many per run, and how long a claim lasts
+export const LINK_PREVIEW_CHECK_INTERVAL_MS = 5000;
+const LINK_PREVIEW_BATCH_SIZE = 20;
+const LINK_PREVIEW_CLAIM_MS = 60000;
+const LINK_PREVIEW_MAX_ATTEMPTS = 3;
+
+// Fetched pages are reused for a day. Failed fetches and pages with nothing to show are
+// only cached briefly, so one transient error doesn't hide a preview for long.
+const LINK_PREVIEW_CACHE_MS = 24 * 60 * 60 * 1000;
+const LINK_PREVIEW_EMPTY_CACHE_MS = 10 * 60 * 1000;
+
+// Private addresses are only reachable when explicitly allowed, e.g. for a local fixture server
+const fetchOptions = (): FetchOptions => ({
+  allowPrivateNetwork: process.env.LINK_PREVIEW_ALLOW_PRIVATE_NETWORK === 'true',
+});
+
+const emptyMetadata: LinkMetadata = {
+  title: null,
+  description: null,
+  imageUrl: null,
+  siteName: null,
+};
+
+const hasPreviewContent = (preview: StoredLinkPreview) => !!(preview.title || preview.description || preview.imageUrl);
+
+const isFresh = (preview: StoredLinkPreview) => {
+  const lifetime = hasPreviewContent(preview) ? LINK_PREVIEW_CACHE_MS : LINK_PREVIEW_EMPTY_CACHE_MS;
+  return Date.now() - preview.fetchedAt.getTime() < lifetime;
+};
+
+// Not claimed by an instance that is fetching it right now
+const unclaimedWhere = (now: Date) => ({
+  OR: [
+    { claimedUntil: null },
+    { claimedUntil: { lt: now } },
+  ],
+});
+
+// Re-host the page's image through the upload pipeline so clients never load it from the site
+const rehostImage = async (url: string, imageUrl: string) => {
+  try {
+    const image = await fetchPreviewImage(imageUrl, fetchOptions());
+    const { url: hostedUrl } = await uploadToCloudinary(image.buffer, 'link-preview', image.mimeType);
+    return hostedUrl;
+  } catch (error) {
+    logger.warn('Link preview image skipped:', { url, imageUrl, reason: (error as Error).message });
+    return null;
+  }
+};
+
+// Best-effort removal of a replaced thumbnail; every message shares the cached row, so none uses it anymore
+const deletePreviewImage = async (imageUrl: string) => {
+  const asset = getCloudinaryAsset(imageUrl);
+  if (!asset) return;
+
+  try {
+    await deleteFromCloudinary(asset.publicId, asset.resourceType);
+  } catch (error) {
+    logger.warn('Failed to delete link preview image:', { imageUrl, error });
+  }
+};
+
+// Cached preview for a URL, fetched again once it is older than its cache lifetime.
+// A page that can't be fetched is cached as a preview with nothing to show.
+const getLinkPreview = async (url: string) => {
+  const cached = await prisma.linkPreview.findUnique({ where: { url } });
+  if (cached && isFresh(cached)) {
+    return cached;
+  }
+
+  let metadata = emptyMetadata;
+  try {
+    metadata = await fetchLinkMetadata(url, fetchOptions());
+  } catch (error) {
+    logger.info('Link preview unavailable:', { url, reason: (error as Error).message });
+
+    // Messages already showing the last good preview keep it through a failed refresh
+    if (cached && hasPreviewContent(cached)) {
+      return cached;
+    }
+  }
+
+  const fields = {
+    title: metadata.title,
+    description: metadata.description,
+    imageUrl: metadata.imageUrl ? await rehostImage(url, metadata.imageUrl) : null,
+    siteName: metadata.siteName,
+  };
+
+  const preview = await prisma.linkPreview.upsert({
+    where: { url },
+    create: { url, ...fields },
+    update: { ...fields, fetchedAt: new Date() },
+  });
+
+  if (cached?.imageUrl && cached.imageUrl !== preview.imageUrl) {
+    await deletePreviewImage(cached.imageUrl);
+  }
+
+  return preview;
+};
+
+const processLinkPreviewJob = async (job: LinkPreviewJob) => {
+  const preview = await getLinkPreview(job.url);
+
+  const message = await prisma.message.findUnique({
+    where: { id: job.messageId },
+    select: { content: true, isDeleted: true },
+  });
+
+  // The message may have been deleted or edited to another link while the page was fetched
+  if (message && !message.isDeleted && hasPreviewContent(preview) && findPreviewUrl(message.content) === job.url) {
+    // Guarded on the content checked above, so an edit landing now keeps its own preview
+    const { count } = await prisma.message.updateMany({
+      where: { id: job.messageId, isDeleted: false, content: message.content },
+      data: { linkPreviewId: preview.id, contentUpdatedAt: new Date() },
+    });
+
+    if (count > 0) {
+      const updated = await prisma.message.findUniqueOrThrow({
+        where: { id: job.messageId },
+        include: messageInclude,
+      });
+
+      // Same strictest read-state view as other conversation-wide broadcasts
+      emitToConversation(
+        updated.conversationId,
+        'message_updated',
+        redactReadState(formatMessage(updated), updated.senderId, false)
+      );
+
+      logger.info('Link preview attached:', {
+        messageId: job.messageId,
+        conversationId: updated.conversationId,
+        url: job.url,
+      });
+    }
+  }
+
+  // By id, so a job queued again by an edit in the meantime is kept
+  await prisma.linkPreviewJob.deleteMany({ where: { id: job.id } });
+};
+
+// Fetch previews for queued messages (run periodically). Jobs live in the database, so
+// links sent while the server was down are previewed on the next run after startup.
+export const processLinkPreviewJobs = async () => {
+  try {
+    const pending = await prisma.linkPreviewJob.findMany({
+      where: unclaimedWhere(new Date()),
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: LINK_PREVIEW_BATCH_SIZE,
+    });
+
+    for (const { id } of pending) {
+      const now = new Date();
+
+      // Only the instance whose claim succeeds fetches the preview; every claim counts as an attempt
+      const { count } = await prisma.linkPreviewJob.updateMany({
+        where: { id, ...unclaimedWhere(now) },
+        data: {
+          claimedUntil: new Date(now.getTime() + LINK_PREVIEW_CLAIM_MS),
+          attempts: { increment: 1 },
+        },
+      });
+      if (count === 0) continue;
+
+      const job = await prisma.linkPreviewJob.findUnique({ where: { id } });
+      if (!job) continue;
+
+      try {
+        await processLinkPreviewJob(job);
+      } catch (error) {
+        logger.error('Error generating link preview:', error);
+
+        // Unexpected errors keep the claim, so the job is retried once it lapses
+        if (job.attempts >= LINK_PREVIEW_MAX_ATTEMPTS) {
+          await prisma.linkPreviewJob.deleteMany({ where: { id: job.id } });
+          logger.warn('Link preview abandoned:', { messageId: job.messageId, url: job.url });
+        }
+      }
+    }
+  } catch (error) {
+    logger.error('Error processing link previews:', error);
+  }
+};
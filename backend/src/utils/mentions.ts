@@ -0,0 +1,77 @@
+import { prisma } from '../config/database';
+import { createAppError } from '../middleware/errorHandler';
+import { messageInclude, formatMessage, visibleMessageWhere } from './messages';
+import { messageCursorWhere } from './messageCursors';
+import { getPrivacySettings, redactReadState } from './privacy';
+import { VALIDATION } from '@toff/shared';
+
+// Messages from others mentioning the user that they can still see
+const mentionedWhere = (userId: string) => ({
+  mentions: { some: { userId } },
+  senderId: { not: userId },
+  ...visibleMessageWhere(userId),
+});
+
+// The user's mentions across all conversations, newest first. A mention is read once the
+// user has read the message. `before` is the id of the last message on the previous page.
+export const getMentions = async (
+  userId: string,
+  { before, unreadOnly = false, limit = VALIDATION.MENTIONS.DEFAULT_PAGE_SIZE }: { before?: string; unreadOnly?: boolean; limit?: number }
+) => {
+  const cursor = before
+    ? await prisma.message.findFirst({
+        where: { id: before, ...mentionedWhere(userId) },
+        select: { id: true, createdAt: true },
+      })
+    : null;
+
+  if (before && !cursor) {
+    throw createAppError('Cursor message not found in mentions', 400);
+  }
+
+  const unreadWhere = { readReceipts: { none: { userId } } };
+  const { readReceiptsEnabled } = await getPrivacySettings(userId);
+
+  const [messages, unreadCount] = await Promise.all([
+    prisma.message.findMany({
+      where: {
+        ...mentionedWhere(userId),
+        ...(unreadOnly && unreadWhere),
+        // Visibility uses OR for expiry, so the cursor is combined with AND
+        ...(cursor && { AND: [messageCursorWhere(cursor, 'before')] }),
+      },
+      include: {
+        ...messageInclude,
+        conversation: {
+          select: {
+            id: true,
+            type: true,
+            name: true,
+          },
+        },
+        readReceipts: {
+          where: { userId },
+          select: { id: true },
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1, // One extra row tells us whether more remain
+    }),
+    prisma.message.count({
+      where: { ...mentionedWhere(userId), ...unreadWhere },
+    }),
+  ]);
+
+  const hasMore = messages.length > limit;
+
+  const results = messages.slice(0, limit).map(({ conversation, readReceipts, ...message }) => ({
+    message: redactReadState(formatMessage(message), userId, readReceiptsEnabled),
+    conversation: {
+      ...conversation,
+      type: conversation.type.toLowerCase(),
+    },
+    isRead: readReceipts.length > 0,
+  }));
+
+  return { results, hasMore, unreadCount };
+};
@@ -0,0 +1,37 @@
+import { isMessageCursor, messageCursorWhere } from './messageCursors';
+
+describe('isMessageCursor', () => {
+  it('accepts message ids and timestamps', () => {
+    expect(isMessageCursor('3f1c2a9e-8b7d-4c6e-9f10-2a3b4c5d6e7f')).toBe(true);
+    expect(isMessageCursor('2025-09-01T12:00:00.000Z')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isMessageCursor('not-a-cursor')).toBe(false);
+    expect(isMessageCursor('')).toBe(false);
+  });
+});
+
+describe('messageCursorWhere', () => {
+  const createdAt = new Date('2025-09-01T12:00:00.000Z');
+
+  it('compares timestamps only for timestamp cursors', () => {
+    expect(messageCursorWhere({ createdAt }, 'before')).toEqual({ createdAt: { lt: createdAt } });
+    expect(messageCursorWhere({ createdAt }, 'after')).toEqual({ createdAt: { gt: createdAt } });
+  });
+
+  it('breaks ties on the id for message cursors', () => {
+    expect(messageCursorWhere({ createdAt, id: 'm1' }, 'before')).toEqual({
+      OR: [
+        { createdAt: { lt: createdAt } },
+        { createdAt, id: { lt: 'm1' } },
+      ],
+    });
+    expect(messageCursorWhere({ createdAt, id: 'm1' }, 'after')).toEqual({
+      OR: [
+        { createdAt: { gt: createdAt } },
+        { createdAt, id: { gt: 'm1' } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,26 @@
+// Position in a conversation's history, ordered by creation time then id
+export interface MessageCursor {
+  createdAt: Date;
+  id?: string;
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Cursors are either a message id or a timestamp
+export const isMessageCursor = (value: string) => UUID_PATTERN.test(value) || !Number.isNaN(Date.parse(value));
+
+// Where clause selecting messages strictly before or after a cursor
+export const messageCursorWhere = (cursor: MessageCursor, direction: 'before' | 'after') => {
+  const op = direction === 'before' ? 'lt' : 'gt';
+
+  if (!cursor.id) {
+    return { createdAt: { [op]: cursor.createdAt } };
+  }
+
+  return {
+    OR: [
+      { createdAt: { [op]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { [op]: cursor.id } },
+    ],
+  };
+};
@@ -0,0 +1,1088 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { deleteFromCloudinary, getCloudinaryAsset } from '../config/cloudinary';
+import { createAppError } from '../middleware/errorHandler';
+import { findMemberConversation, getMembership, getMemberIds, unarchiveForNewMessage, formatDraft } from './conversations';
+import { getPrivacySettings } from './privacy';
+import { emitToUsers, emitToConversation } from '../socket/emitter';
+import { UUID_PATTERN } from './messageCursors';
+import { summarizeReactions } from './reactions';
+import type { MessageCursor } from './messageCursors';
+import { VALIDATION, findMentions, isValidReactionEmoji, parseRichText, truncateText, validateRichText } from '@toff/shared';
+import type { ConversationDraft, MentionReceivedEvent, MessageDeliveredEvent, MessageType, MessageUnpinnedEvent, MessageSearchRequest, ReactionSummary, ReadReceiptChange, RichTextBlock, RichTextInline, SendMessageRequest } from '@toff/shared';
+
+// Sender fields included with every message payload
+export const messageSenderSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+} as const;
+
+// Relations included with every message payload
+export const messageInclude = {
+  sender: {
+    select: messageSenderSelect,
+  },
+  replyTo: {
+    select: {
+      id: true,
+      senderId: true,
+      content: true,
+      messageType: true,
+      fileName: true,
+      isDeleted: true,
+      sender: {
+        select: {
+          displayName: true,
+        },
+      },
+    },
+  },
+  mentions: {
+    select: {
+      userId: true,
+      offset: true,
+      length: true,
+      user: {
+        select: {
+          username: true,
+        },
+      },
+    },
+    orderBy: { offset: 'asc' },
+  },
+  linkPreview: {
+    select: {
+      url: true,
+      title: true,
+      description: true,
+      imageUrl: true,
+      siteName: true,
+    },
+  },
+} as const;
+
+// Short preview of a quoted message; deleted originals keep a preview without their content
+export const formatReplyPreview = (replyTo: any) => {
+  if (!replyTo) return null;
+
+  let preview: string | null = null;
+  if (!replyTo.isDeleted) {
+    preview = replyTo.content
+      ? truncateText(replyTo.content, VALIDATION.MESSAGE.REPLY_PREVIEW_LENGTH)
+      : replyTo.fileName;
+  }
+
+  return {
+    id: replyTo.id,
+    senderId: replyTo.senderId,
+    senderName: replyTo.sender.displayName,
+    messageType: replyTo.messageType.toLowerCase(),
+    preview,
+    isDeleted: replyTo.isDeleted,
+  };
+};
+
+// Shape a message loaded with messageInclude (and optionally raw reactions) for clients
+export const formatMessage = (message: any) => ({
+  ...message,
+  replyTo: formatReplyPreview(message.replyTo),
+  ...(message.reactions && { reactions: summarizeReactions(message.reactions) }),
+  ...(message.mentions && {
+    mentions: message.mentions.map((mention: any) => ({
+      userId: mention.userId,
+      username: mention.user.username,
+      offset: mention.offset,
+      length: mention.length,
+    })),
+  }),
+});
+
+// Resolve a before/after cursor given as a message id or an ISO timestamp
+export const resolveMessageCursor = async (conversationId: string, cursor: string): Promise<MessageCursor> => {
+  if (UUID_PATTERN.test(cursor)) {
+    const message = await prisma.message.findUnique({
+      where: { id: cursor },
+      select: { id: true, conversationId: true, createdAt: true },
+    });
+
+    if (!message || message.conversationId !== conversationId) {
+      throw createAppError('Cursor message not found in this conversation', 400);
+    }
+
+    return { createdAt: message.createdAt, id: message.id };
+  }
+
+  return { createdAt: new Date(cursor) };
+};
+
+// Message a sender already stored under a client-generated id, if any
+const findMessageByClientId = (senderId: string, clientMessageId: string) => {
+  return prisma.message.findUnique({
+    where: {
+      senderId_clientMessageId: {
+        senderId,
+        clientMessageId,
+      },
+    },
+    include: messageInclude,
+  });
+};
+
+// A retried send resolves to the message stored by the first attempt
+const duplicateSendResult = (existing: { conversationId: string }, conversationId: string) => {
+  if (existing.conversationId !== conversationId) {
+    throw createAppError('Client message ID was already used in another conversation', 409);
+  }
+
+  return { message: formatMessage(existing), created: false };
+};
+
+// Disappearing messages past their expiry are hidden until the cleanup job deletes them
+export const notExpiredWhere = () => ({
+  OR: [
+    { expiresAt: null },
+    { expiresAt: { gt: new Date() } },
+  ],
+});
+
+// Messages the user can still see: in one of their conversations and not deleted, hidden or expired
+export const visibleMessageWhere = (userId: string) => ({
+  isDeleted: false,
+  hiddenFor: { none: { userId } },
+  conversation: { members: { some: { userId } } },
+  ...notExpiredWhere(),
+});
+
+// Match `@username` mentions in the text to members of the conversation; anything else stays plain text
+const resolveMentions = async (conversationId: string, content: string | null | undefined) => {
+  const tokens = content ? findMentions(content) : [];
+  if (tokens.length === 0) return [];
+
+  const members = await prisma.conversationMember.findMany({
+    where: { conversationId },
+    select: { userId: true, user: { select: { username: true } } },
+  });
+  const memberIdsByUsername = new Map(members.map(member => [member.user.username.toLowerCase(), member.userId]));
+
+  return tokens
+    .filter(token => memberIdsByUsername.has(token.username.toLowerCase()))
+    .map(token => ({
+      userId: memberIdsByUsername.get(token.username.toLowerCase())!,
+      offset: token.offset,
+      length: token.length,
+    }));
+};
+
+// First web link in a text message, the one it gets a preview for. Links in code are plain
+// text to the parser, so they are never previewed.
+export const findPreviewUrl = (content: string | null | undefined): string | null => {
+  if (!content) return null;
+
+  const findInline = (nodes: RichTextInline[]): string | null => {
+    for (const node of nodes) {
+      if (node.type === 'link' && /^https?:/i.test(node.url)) return node.url;
+      if (node.type === 'bold' || node.type === 'italic' || node.type === 'link') {
+        const url = findInline(node.children);
+        if (url) return url;
+      }
+    }
+    return null;
+  };
+
+  const findBlock = (blocks: RichTextBlock[]): string | null => {
+    for (const block of blocks) {
+      const url = block.type === 'paragraph' ? findInline(block.children)
+        : block.type === 'quote' ? findBlock(block.children)
+        : null;
+      if (url) return url;
+    }
+    return null;
+  };
+
+  return findBlock(parseRichText(content).children);
+};
+
+// Tell mentioned members about a message on its own channel, so clients can notify them
+// even in conversations they muted. The author is never notified about themselves.
+const notifyMentions = (message: any, userIds: string[]) => {
+  const mentionedIds = [...new Set(userIds)].filter(userId => userId !== message.senderId);
+  if (mentionedIds.length === 0) return;
+
+  const event: MentionReceivedEvent = {
+    conversationId: message.conversationId,
+    message,
+  };
+  emitToUsers(mentionedIds, 'mention_received', event);
+};
+
+// Content checks shared by sending now and scheduling for later
+export const validateMessageContent = async (
+  conversationId: string,
+  messageData: Pick<SendMessageRequest, 'content' | 'messageType' | 'fileUrl' | 'replyToId'>
+) => {
+  // Only the server posts system notices
+  if (messageData.messageType === 'system') {
+    throw createAppError('Invalid message type', 400);
+  }
+
+  if (messageData.messageType === 'text' && !messageData.content) {
+    throw createAppError('Text messages must have content', 400);
+  }
+
+  // Checked before any parsing; socket sends don't pass through the REST validators
+  if (messageData.content !== undefined && messageData.content !== null) {
+    if (typeof messageData.content !== 'string') {
+      throw createAppError('Message content must be a string', 400);
+    }
+
+    if (messageData.content.length > VALIDATION.MESSAGE.MAX_LENGTH) {
+      throw createAppError('Message content too long', 400);
+    }
+  }
+
+  // Text is markdown; it has to render to something
+  const richTextError = messageData.messageType === 'text' ? validateRichText(messageData.content!) : null;
+  if (richTextError) {
+    throw createAppError(richTextError, 400);
+  }
+
+  if (messageData.messageType !== 'text' && !messageData.fileUrl) {
+    throw createAppError('File messages must have a file URL', 400);
+  }
+
+  // Quoted messages must come from the same conversation
+  if (messageData.replyToId) {
+    const quotedMessage = await prisma.message.findUnique({
+      where: { id: messageData.replyToId },
+      select: { conversationId: true },
+    });
+
+    if (!quotedMessage || quotedMessage.conversationId !== conversationId) {
+      throw createAppError('Quoted message must belong to the same conversation', 400);
+    }
+  }
+};
+
+export interface SendMessageOptions {
+  // Only for messages the user just typed and sent, never for scheduled ones
+  clearDraft?: boolean;
+}
+
+type ResolvedMention = Awaited<ReturnType<typeof resolveMentions>>[number];
+
+// Row for a new message, created together with its mentions and link preview job
+const newMessageData = (
+  conversation: { id: string; messageTtlSeconds: number | null },
+  senderId: string,
+  messageData: Omit<SendMessageRequest, 'conversationId'>,
+  mentions: ResolvedMention[],
+  forwardedFrom?: { messageId: string | null }
+) => {
+  const previewUrl = messageData.messageType === 'text' ? findPreviewUrl(messageData.content) : null;
+
+  return {
+    conversationId: conversation.id,
+    senderId,
+    content: messageData.content || null,
+    messageType: messageData.messageType.toUpperCase() as any,
+    fileUrl: messageData.fileUrl || null,
+    fileName: messageData.fileName || null,
+    fileSize: messageData.fileSize || null,
+    fileMimeType: messageData.fileMimeType || null,
+    replyToId: messageData.replyToId || null,
+    clientMessageId: messageData.clientMessageId || null,
+    isForwarded: !!forwardedFrom,
+    forwardedFromId: forwardedFrom?.messageId ?? null,
+    expiresAt: conversation.messageTtlSeconds
+      ? new Date(Date.now() + conversation.messageTtlSeconds * 1000)
+      : null,
+    mentions: {
+      create: mentions,
+    },
+    // The preview is fetched in the background and pushed with message_updated
+    ...(previewUrl && {
+      linkPreviewJob: {
+        create: { url: previewUrl },
+      },
+    }),
+  } satisfies Prisma.MessageUncheckedCreateInput;
+};
+
+// Validate and store a new message, then bump the conversation's last message time.
+// `created` is false when a send with the same clientMessageId was already stored.
+export const sendMessage = async (
+  conversationId: string,
+  senderId: string,
+  messageData: Omit<SendMessageRequest, 'conversationId'>,
+  { clearDraft = false }: SendMessageOptions = {}
+) => {
+  // Verify user is participant in conversation
+  const conversation = await findMemberConversation(conversationId, senderId);
+
+  if (!conversation) {
+    throw createAppError('Conversation not found', 404);
+  }
+
+  const { clientMessageId } = messageData;
+
+  if (clientMessageId !== undefined &&
+      (typeof clientMessageId !== 'string' || !clientMessageId ||
+        clientMessageId.length > VALIDATION.MESSAGE.CLIENT_ID_MAX_LENGTH)) {
+    throw createAppError('Invalid client message ID', 400);
+  }
+
+  if (clientMessageId) {
+    const existing = await findMessageByClientId(senderId, clientMessageId);
+    if (existing) {
+      return duplicateSendResult(existing, conversationId);
+    }
+  }
+
+  await validateMessageContent(conversationId, messageData);
+
+  const mentions = await resolveMentions(conversationId, messageData.content);
+
+  let message;
+  try {
+    message = await prisma.message.create({
+      data: newMessageData(conversation, senderId, messageData, mentions),
+      include: messageInclude,
+    });
+  } catch (error) {
+    // A concurrent retry won the race on the unique (sender, clientMessageId) index
+    if (clientMessageId && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await findMessageByClientId(senderId, clientMessageId);
+      if (existing) {
+        return duplicateSendResult(existing, conversationId);
+      }
+    }
+    throw error;
+  }
+
+  // Update conversation last message time
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { lastMessageAt: new Date() },
+  });
+
+  await unarchiveForNewMessage(conversationId);
+
+  // The draft was just sent; clear it on the sender's other devices too
+  if (clearDraft) {
+    const { count: clearedDrafts } = await prisma.conversationDraft.deleteMany({
+      where: { conversationId, userId: senderId },
+    });
+    if (clearedDrafts > 0) {
+      emitToUsers([senderId], 'draft_updated', formatDraft(conversationId, null));
+    }
+  }
+
+  // Queue the message for every recipient until one of their clients confirms it
+  const recipientIds = (await getMemberIds(conversationId)).filter(memberId => memberId !== senderId);
+  await prisma.pendingDelivery.createMany({
+    data: recipientIds.map(userId => ({
+      userId,
+      messageId: message.id,
+    })),
+    skipDuplicates: true,
+  });
+
+  const formattedMessage = formatMessage(message);
+  notifyMentions(formattedMessage, mentions.map(mention => mention.userId));
+
+  return { message: formattedMessage, created: true };
+};
+
+// Copy messages the user can see into other conversations they belong to, oldest first,
+// keeping attachment metadata. Forwarding a forward points back at the original. Every copy
+// is stored in one transaction, so a failure leaves no partial forward behind.
+export const forwardMessages = async (userId: string, messageIds: string[], conversationIds: string[]) => {
+  const sources = await prisma.message.findMany({
+    where: {
+      id: { in: messageIds },
+      messageType: { not: 'SYSTEM' },
+      ...visibleMessageWhere(userId),
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  if (sources.length !== new Set(messageIds).size) {
+    throw createAppError('Message not found', 404);
+  }
+
+  // Check every target and copy before anything is stored
+  const copies = [];
+  const recipientIds = new Map<string, string[]>();
+  for (const conversationId of new Set(conversationIds)) {
+    const conversation = await findMemberConversation(conversationId, userId);
+
+    if (!conversation) {
+      throw createAppError('Conversation not found', 404);
+    }
+
+    recipientIds.set(conversationId, (await getMemberIds(conversationId)).filter(memberId => memberId !== userId));
+
+    for (const source of sources) {
+      const messageData = {
+        content: source.content ?? undefined,
+        messageType: source.messageType.toLowerCase() as MessageType,
+        fileUrl: source.fileUrl ?? undefined,
+        fileName: source.fileName ?? undefined,
+        fileSize: source.fileSize ?? undefined,
+        fileMimeType: source.fileMimeType ?? undefined,
+      };
+      await validateMessageContent(conversationId, messageData);
+
+      const mentions = await resolveMentions(conversationId, messageData.content);
+      copies.push({
+        mentions,
+        data: newMessageData(conversation, userId, messageData, mentions, {
+          messageId: source.isForwarded ? source.forwardedFromId : source.id,
+        }),
+      });
+    }
+  }
+
+  const forwarded = await prisma.$transaction(async (tx) => {
+    const messages = [];
+    for (const copy of copies) {
+      messages.push(await tx.message.create({
+        data: copy.data,
+        include: messageInclude,
+      }));
+    }
+
+    await tx.conversation.updateMany({
+      where: { id: { in: [...recipientIds.keys()] } },
+      data: { lastMessageAt: new Date() },
+    });
+
+    // Queue each copy for every recipient until one of their clients confirms it
+    await tx.pendingDelivery.createMany({
+      data: messages.flatMap(message => (recipientIds.get(message.conversationId) ?? []).map(recipientId => ({
+        userId: recipientId,
+        messageId: message.id,
+      }))),
+      skipDuplicates: true,
+    });
+
+    return messages;
+  });
+
+  // Side effects only once everything is stored
+  for (const conversationId of recipientIds.keys()) {
+    await unarchiveForNewMessage(conversationId);
+  }
+
+  return forwarded.map((message, index) => {
+    const formattedMessage = formatMessage(message);
+    notifyMentions(formattedMessage, copies[index].mentions.map(mention => mention.userId));
+    return formattedMessage;
+  });
+};
+
+// Post a notice about the conversation itself (e.g. a changed setting) and deliver it like a message
+export const postSystemMessage = async (conversationId: string, actorId: string, content: string) => {
+  const message = await prisma.message.create({
+    data: {
+      conversationId,
+      senderId: actorId,
+      content,
+      messageType: 'SYSTEM',
+    },
+    include: messageInclude,
+  });
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { lastMessageAt: message.createdAt },
+  });
+
+  const memberIds = await getMemberIds(conversationId);
+  await prisma.pendingDelivery.createMany({
+    data: memberIds
+      .filter(memberId => memberId !== actorId)
+      .map(userId => ({ userId, messageId: message.id })),
+    skipDuplicates: true,
+  });
+
+  const formattedMessage = formatMessage(message);
+  emitToUsers(memberIds, 'message_received', formattedMessage);
+
+  return formattedMessage;
+};
+
+// Save the user's draft in a conversation; blank content clears it
+export const saveDraft = async (conversationId: string, userId: string, content: string): Promise<ConversationDraft> => {
+  const membership = await getMembership(conversationId, userId);
+
+  if (!membership) {
+    throw createAppError('Conversation not found', 404);
+  }
+
+  if (content.length > VALIDATION.MESSAGE.MAX_LENGTH) {
+    throw createAppError(`Draft must be at most ${VALIDATION.MESSAGE.MAX_LENGTH} characters`, 400);
+  }
+
+  if (!content.trim()) {
+    await prisma.conversationDraft.deleteMany({
+      where: { conversationId, userId },
+    });
+    return formatDraft(conversationId, null);
+  }
+
+  const draft = await prisma.conversationDraft.upsert({
+    where: { conversationId_userId: { conversationId, userId } },
+    update: { content },
+    create: { conversationId, userId, content },
+  });
+
+  return formatDraft(conversationId, draft);
+};
+
+// Record that a recipient's client received messages and tell each sender.
+// Only messages the user can see and hasn't confirmed yet are recorded; returns the newly delivered ids.
+export const markMessagesDelivered = async (userId: string, messageIds: string[]) => {
+  if (messageIds.length === 0) return [];
+
+  // Confirmed messages leave the user's pending queue even if they no longer count as deliverable
+  await prisma.pendingDelivery.deleteMany({
+    where: {
+      userId,
+      messageId: { in: messageIds },
+    },
+  });
+
+  const pendingMessages = await prisma.message.findMany({
+    where: {
+      id: { in: messageIds },
+      senderId: { not: userId },
+      isDeleted: false,
+      conversation: { members: { some: { userId } } },
+      deliveries: { none: { userId } },
+    },
+    select: {
+      id: true,
+      conversationId: true,
+      senderId: true,
+    },
+  });
+
+  if (pendingMessages.length === 0) return [];
+
+  const pendingIds = pendingMessages.map(message => message.id);
+  const deliveredAt = new Date();
+
+  // The message's own deliveredAt marks its first delivery to anyone
+  await prisma.$transaction([
+    prisma.messageDelivery.createMany({
+      data: pendingIds.map(messageId => ({
+        messageId,
+        userId,
+        deliveredAt,
+      })),
+      skipDuplicates: true,
+    }),
+    prisma.message.updateMany({
+      where: {
+        id: { in: pendingIds },
+        deliveredAt: null,
+      },
+      data: { deliveredAt },
+    }),
+  ]);
+
+  pendingMessages.forEach(message => {
+    const event: MessageDeliveredEvent = {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      userId,
+      deliveredAt,
+    };
+    emitToUsers([message.senderId], 'message_delivered', event);
+  });
+
+  return pendingIds;
+};
+
+// Record that a member read messages. A reader who shares read receipts marks the messages read for their
+// senders and notifies members who share receipts too; otherwise only the reader's own devices hear about it.
+// Returns the ids read for the first time.
+export const markMessagesRead = async (userId: string, messageIds: string[]) => {
+  if (messageIds.length === 0) return [];
+
+  const unreadMessages = await prisma.message.findMany({
+    where: {
+      id: { in: messageIds },
+      senderId: { not: userId },
+      conversation: { members: { some: { userId } } },
+      readReceipts: { none: { userId } },
+    },
+    select: {
+      id: true,
+      conversationId: true,
+    },
+  });
+
+  if (unreadMessages.length === 0) return [];
+
+  const unreadIds = unreadMessages.map(message => message.id);
+  const readAt = new Date();
+
+  // Reading a message implies it was delivered
+  await markMessagesDelivered(userId, unreadIds);
+
+  const { readReceiptsEnabled } = await getPrivacySettings(userId);
+
+  await prisma.$transaction([
+    prisma.messageReadReceipt.createMany({
+      data: unreadIds.map(messageId => ({
+        messageId,
+        userId,
+        readAt,
+      })),
+      skipDuplicates: true,
+    }),
+    ...(readReceiptsEnabled
+      ? [prisma.message.updateMany({
+        where: {
+          id: { in: unreadIds },
+          isRead: false,
+        },
+        data: { isRead: true, readAt },
+      })]
+      : []),
+  ]);
+
+  const conversationIds = [...new Set(unreadMessages.map(message => message.conversationId))];
+  const sharingMembers = readReceiptsEnabled
+    ? await prisma.conversationMember.findMany({
+      where: {
+        conversationId: { in: conversationIds },
+        user: { readReceiptsEnabled: true },
+      },
+      select: {
+        conversationId: true,
+        userId: true,
+      },
+    })
+    : [];
+
+  unreadMessages.forEach(message => {
+    const recipientIds = readReceiptsEnabled
+      ? sharingMembers.filter(member => member.conversationId === message.conversationId).map(member => member.userId)
+      : [userId];
+    const event: ReadReceiptChange = {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      userId,
+      readAt,
+    };
+    emitToUsers(recipientIds, 'message_read', event);
+    emitToUsers(recipientIds, 'read_receipt_updated', event);
+  });
+
+  return unreadIds;
+};
+
+// Edit a text message as its sender, keeping the previous content as a revision
+export const editMessage = async (messageId: string, userId: string, content: string) => {
+  const trimmedContent = typeof content === 'string' ? content.trim() : '';
+
+  if (!trimmedContent) {
+    throw createAppError('Message content is required', 400);
+  }
+
+  if (trimmedContent.length > VALIDATION.MESSAGE.MAX_LENGTH) {
+    throw createAppError('Message content too long', 400);
+  }
+
+  // Expired messages are as good as gone, and senders who left the conversation can't edit anymore
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, ...notExpiredWhere() },
+    include: {
+      mentions: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!message || !(await getMembership(message.conversationId, userId))) {
+    throw createAppError('Message not found', 404);
+  }
+
+  if (message.senderId !== userId) {
+    throw createAppError('You can only edit your own messages', 403);
+  }
+
+  if (message.isDeleted) {
+    throw createAppError('Deleted messages cannot be edited', 400);
+  }
+
+  if (message.messageType !== 'TEXT') {
+    throw createAppError('Only text messages can be edited', 400);
+  }
+
+  const editWindowMs = VALIDATION.MESSAGE.EDIT_WINDOW_MINUTES * 60 * 1000;
+  if (Date.now() - message.createdAt.getTime() > editWindowMs) {
+    throw createAppError(`Messages can only be edited within ${VALIDATION.MESSAGE.EDIT_WINDOW_MINUTES} minutes`, 400);
+  }
+
+  if (trimmedContent === message.content) {
+    throw createAppError('Message content is unchanged', 400);
+  }
+
+  const richTextError = validateRichText(trimmedContent);
+  if (richTextError) {
+    throw createAppError(richTextError, 400);
+  }
+
+  // Offsets point into the old text, so mentions are parsed again from the new one
+  const mentions = await resolveMentions(message.conversationId, trimmedContent);
+
+  // The preview follows the first link; it is only fetched again when that link changes
+  const previewUrl = findPreviewUrl(trimmedContent);
+  const previewChanged = previewUrl !== findPreviewUrl(message.content);
+
+  const [, , , updatedMessage] = await prisma.$transaction([
+    prisma.messageRevision.create({
+      data: {
+        messageId,
+        content: message.content || '',
+      },
+    }),
+    prisma.messageMention.deleteMany({
+      where: { messageId },
+    }),
+    // A pending job for a link the edit removed is dropped
+    prisma.linkPreviewJob.deleteMany({
+      where: { messageId, url: { not: previewUrl ?? '' } },
+    }),
+    prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content: trimmedContent,
+        isEdited: true,
+        editedAt: new Date(),
+        contentUpdatedAt: new Date(),
+        mentions: {
+          create: mentions,
+        },
+        ...(previewChanged && {
+          linkPreviewId: null,
+          ...(previewUrl && {
+            linkPreviewJob: {
+              create: { url: previewUrl },
+            },
+          }),
+        }),
+      },
+      include: messageInclude,
+    }),
+  ]);
+
+  const formattedMessage = formatMessage(updatedMessage);
+
+  // Only members the edit newly mentions are notified
+  const previouslyMentioned = new Set(message.mentions.map(mention => mention.userId));
+  notifyMentions(
+    formattedMessage,
+    mentions.map(mention => mention.userId).filter(mentionedId => !previouslyMentioned.has(mentionedId))
+  );
+
+  return formattedMessage;
+};
+
+// Revision history of a message, visible to conversation members
+export const getMessageRevisions = async (messageId: string, userId: string) => {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      revisions: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!message || !(await getMembership(message.conversationId, userId))) {
+    throw createAppError('Message not found', 404);
+  }
+
+  return message.revisions;
+};
+
+// Hide a message for the calling user only
+export const deleteMessageForMe = async (messageId: string, userId: string) => {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+  });
+
+  if (!message || !(await getMembership(message.conversationId, userId))) {
+    throw createAppError('Message not found', 404);
+  }
+
+  await prisma.messageDeletion.upsert({
+    where: {
+      messageId_userId: {
+        messageId,
+        userId,
+      },
+    },
+    update: {},
+    create: {
+      messageId,
+      userId,
+    },
+  });
+
+  return message;
+};
+
+// Replace a message with a tombstone for every participant and remove its attachment
+export const deleteMessageForEveryone = async (messageId: string, userId: string) => {
+  // Same rules as editing: expired messages are gone, and senders who left can't delete anymore
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, ...notExpiredWhere() },
+  });
+
+  if (!message || !(await getMembership(message.conversationId, userId))) {
+    throw createAppError('Message not found', 404);
+  }
+
+  if (message.senderId !== userId) {
+    throw createAppError('You can only delete your own messages for everyone', 403);
+  }
+
+  if (message.isDeleted) {
+    throw createAppError('Message already deleted', 400);
+  }
+
+  const [, , , unpinned, tombstone] = await prisma.$transaction([
+    prisma.messageRevision.deleteMany({
+      where: { messageId },
+    }),
+    prisma.messageMention.deleteMany({
+      where: { messageId },
+    }),
+    prisma.messageReaction.deleteMany({
+      where: { messageId },
+    }),
+    prisma.pinnedMessage.deleteMany({
+      where: { messageId },
+    }),
+    prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content: null,
+        fileUrl: null,
+        fileName: null,
+        fileSize: null,
+        fileMimeType: null,
+        linkPreviewId: null,
+        isDeleted: true,
+        deletedAt: new Date(),
+        contentUpdatedAt: new Date(),
+      },
+      include: messageInclude,
+    }),
+  ]);
+
+  if (message.fileUrl) {
+    await deleteMessageAttachment(message.fileUrl);
+  }
+
+  // A deleted message can't stay pinned
+  if (unpinned.count > 0) {
+    const event: MessageUnpinnedEvent = {
+      conversationId: message.conversationId,
+      messageId,
+      unpinnedBy: null,
+    };
+    emitToConversation(message.conversationId, 'message_unpinned', event);
+  }
+
+  return formatMessage(tombstone);
+};
+
+// Best-effort removal of an uploaded attachment; the message is already gone either way.
+// Forwarded copies share the upload, so it stays while any other message still uses it.
+export const deleteMessageAttachment = async (fileUrl: string, deletedMessageIds: string[] = []) => {
+  const asset = getCloudinaryAsset(fileUrl);
+  if (!asset) return;
+
+  const stillUsed = await prisma.message.count({
+    where: { fileUrl, id: { notIn: deletedMessageIds } },
+  });
+  if (stillUsed > 0) return;
+
+  try {
+    await deleteFromCloudinary(asset.publicId, asset.resourceType);
+  } catch (error) {
+    logger.warn('Failed to delete message attachment:', { fileUrl, error });
+  }
+};
+
+const getReactionSummary = async (messageId: string, emoji: string): Promise<ReactionSummary> => {
+  const reactions = await prisma.messageReaction.findMany({
+    where: { messageId, emoji },
+    orderBy: { createdAt: 'asc' },
+    select: { userId: true },
+  });
+
+  return {
+    emoji,
+    count: reactions.length,
+    userIds: reactions.map(reaction => reaction.userId),
+  };
+};
+
+// Load a message the user can react to
+const findReactableMessage = async (messageId: string, userId: string, emoji: string) => {
+  if (typeof emoji !== 'string' || !isValidReactionEmoji(emoji)) {
+    throw createAppError('Invalid reaction emoji', 400);
+  }
+
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+  });
+
+  if (!message || !(await getMembership(message.conversationId, userId))) {
+    throw createAppError('Message not found', 404);
+  }
+
+  if (message.isDeleted) {
+    throw createAppError('Cannot react to a deleted message', 400);
+  }
+
+  return message;
+};
+
+// Add the reaction if the user hasn't used this emoji on the message yet, otherwise remove it
+export const toggleReaction = async (messageId: string, userId: string, emoji: string) => {
+  const message = await findReactableMessage(messageId, userId, emoji);
+
+  const existing = await prisma.messageReaction.findUnique({
+    where: {
+      messageId_userId_emoji: {
+        messageId,
+        userId,
+        emoji,
+      },
+    },
+  });
+
+  if (existing) {
+    await prisma.messageReaction.delete({ where: { id: existing.id } });
+  } else {
+    await prisma.messageReaction.create({
+      data: {
+        messageId,
+        userId,
+        emoji,
+      },
+    });
+  }
+
+  return {
+    action: existing ? 'removed' as const : 'added' as const,
+    conversationId: message.conversationId,
+    reaction: await getReactionSummary(messageId, emoji),
+  };
+};
+
+export const removeReaction = async (messageId: string, userId: string, emoji: string) => {
+  const message = await findReactableMessage(messageId, userId, emoji);
+
+  const deleted = await prisma.messageReaction.deleteMany({
+    where: {
+      messageId,
+      userId,
+      emoji,
+    },
+  });
+
+  if (deleted.count === 0) {
+    throw createAppError('Reaction not found', 404);
+  }
+
+  return {
+    action: 'removed' as const,
+    conversationId: message.conversationId,
+    reaction: await getReactionSummary(messageId, emoji),
+  };
+};
+
+// Full-text search over messages in the user's conversations, best matches first
+export const searchMessages = async (
+  userId: string,
+  { q, conversationId, senderId, from, to, messageType, page = 1, limit = 20 }: MessageSearchRequest
+) => {
+  const { HIGHLIGHT_START, HIGHLIGHT_END } = VALIDATION.SEARCH;
+  const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=20, MinWords=8, MaxFragments=2`;
+
+  const filters = [
+    conversationId ? Prisma.sql`AND m.conversation_id = ${conversationId}` : Prisma.empty,
+    senderId ? Prisma.sql`AND m.sender_id = ${senderId}` : Prisma.empty,
+    from ? Prisma.sql`AND m.created_at >= ${new Date(from)}` : Prisma.empty,
+    to ? Prisma.sql`AND m.created_at <= ${new Date(to)}` : Prisma.empty,
+    messageType ? Prisma.sql`AND m.message_type = ${messageType.toUpperCase()}::"message_type"` : Prisma.empty,
+  ];
+
+  // Fetch one extra row to know whether another page exists
+  const hits = await prisma.$queryRaw<{ id: string; snippet: string; rank: number }[]>`
+    SELECT
+      m.id,
+      ts_headline('simple', coalesce(m.content, m.file_name, ''), query, ${headlineOptions}) AS snippet,
+      ts_rank(m.search_vector, query)::float8 AS rank
+    FROM messages m
+    JOIN conversation_members cm ON cm.conversation_id = m.conversation_id AND cm.user_id = ${userId}
+    CROSS JOIN websearch_to_tsquery('simple', ${q}) AS query
+    WHERE m.search_vector @@ query
+      AND m.is_deleted = false
+      AND (m.expires_at IS NULL OR m.expires_at > now())
+      AND NOT EXISTS (
+        SELECT 1 FROM message_deletions md WHERE md.message_id = m.id AND md.user_id = ${userId}
+      )
+      ${Prisma.join(filters, ' ')}
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT ${limit + 1} OFFSET ${(page - 1) * limit}
+  `;
+
+  const hasMore = hits.length > limit;
+  const pageHits = hits.slice(0, limit);
+
+  const messages = await prisma.message.findMany({
+    where: { id: { in: pageHits.map(hit => hit.id) } },
+    include: {
+      ...messageInclude,
+      conversation: {
+        select: {
+          id: true,
+          type: true,
+          name: true,
+        },
+      },
+    },
+  });
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+
+  const results = pageHits
+    .filter(hit => messagesById.has(hit.id))
+    .map(hit => {
+      const { conversation, ...message } = messagesById.get(hit.id)!;
+      return {
+        message: formatMessage(message),
+        conversation: {
+          ...conversation,
+          type: conversation.type.toLowerCase(),
+        },
+        snippet: hit.snippet,
+        rank: hit.rank,
+      };
+    });
+
+  return { results, hasMore };
+};
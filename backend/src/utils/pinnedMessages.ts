@@ -0,0 +1,136 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { createAppError } from '../middleware/errorHandler';
+import { getMembership } from './conversations';
+import { messageInclude, formatMessage } from './messages';
+import { redactReadState } from './privacy';
+import { VALIDATION } from '@toff/shared';
+import type { MessageUnpinnedEvent } from '@toff/shared';
+
+const pinInclude = {
+  message: {
+    include: messageInclude,
+  },
+  pinnedBy: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+    },
+  },
+} as const;
+
+// Pins go to the whole room, so the message's read state is left out for everyone
+export const formatPinnedMessage = (pin: any) => ({
+  conversationId: pin.conversationId,
+  messageId: pin.messageId,
+  message: redactReadState(formatMessage(pin.message), pin.message.senderId, false),
+  pinnedBy: pin.pinnedBy,
+  pinnedAt: pin.pinnedAt,
+});
+
+// Pin a message for every member; `created` is false when it was already pinned
+export const pinMessage = async (messageId: string, userId: string) => {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    select: { conversationId: true, isDeleted: true, messageType: true },
+  });
+
+  if (!message || !(await getMembership(message.conversationId, userId))) {
+    throw createAppError('Message not found', 404);
+  }
+
+  if (message.isDeleted) {
+    throw createAppError('Deleted messages cannot be pinned', 400);
+  }
+
+  if (message.messageType === 'SYSTEM') {
+    throw createAppError('System messages cannot be pinned', 400);
+  }
+
+  const existing = await prisma.pinnedMessage.findUnique({
+    where: { messageId },
+    include: pinInclude,
+  });
+
+  if (existing) {
+    return { pin: formatPinnedMessage(existing), created: false };
+  }
+
+  try {
+    const pin = await prisma.$transaction(async (tx) => {
+      // Lock the conversation so concurrent pins are counted one after another
+      await tx.$queryRaw`SELECT id FROM conversations WHERE id = ${message.conversationId} FOR UPDATE`;
+
+      const pinnedCount = await tx.pinnedMessage.count({
+        where: { conversationId: message.conversationId },
+      });
+
+      if (pinnedCount >= VALIDATION.CONVERSATION.MAX_PINNED_MESSAGES) {
+        throw createAppError(`At most ${VALIDATION.CONVERSATION.MAX_PINNED_MESSAGES} messages can be pinned per conversation`, 400);
+      }
+
+      return tx.pinnedMessage.create({
+        data: {
+          conversationId: message.conversationId,
+          messageId,
+          pinnedById: userId,
+        },
+        include: pinInclude,
+      });
+    });
+
+    return { pin: formatPinnedMessage(pin), created: true };
+  } catch (error) {
+    // Another member pinned it at the same moment
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const pin = await prisma.pinnedMessage.findUniqueOrThrow({
+        where: { messageId },
+        include: pinInclude,
+      });
+      return { pin: formatPinnedMessage(pin), created: false };
+    }
+    throw error;
+  }
+};
+
+export const unpinMessage = async (messageId: string, userId: string): Promise<MessageUnpinnedEvent> => {
+  const pin = await prisma.pinnedMessage.findUnique({
+    where: { messageId },
+  });
+
+  if (!pin || !(await getMembership(pin.conversationId, userId))) {
+    throw createAppError('Pinned message not found', 404);
+  }
+
+  const { count } = await prisma.pinnedMessage.deleteMany({
+    where: { messageId },
+  });
+
+  if (count === 0) {
+    throw createAppError('Pinned message not found', 404);
+  }
+
+  return {
+    conversationId: pin.conversationId,
+    messageId,
+    unpinnedBy: userId,
+  };
+};
+
+// Pinned messages of a conversation, most recently pinned first
+export const getPinnedMessages = async (conversationId: string, userId: string) => {
+  const membership = await getMembership(conversationId, userId);
+
+  if (!membership) {
+    throw createAppError('Conversation not found', 404);
+  }
+
+  const pins = await prisma.pinnedMessage.findMany({
+    where: { conversationId },
+    include: pinInclude,
+    orderBy: { pinnedAt: 'desc' },
+  });
+
+  return pins.map(formatPinnedMessage);
+};
@@ -0,0 +1,85 @@
+import type { LastSeenVisibility as StoredLastSeenVisibility } from '@prisma/client';
+import { prisma } from '../config/database';
+import { createAppError } from '../middleware/errorHandler';
+import { getFriendIds } from './friends';
+import type { LastSeenVisibility } from '@toff/shared';
+
+export const privacySelect = {
+  lastSeenVisibility: true,
+  readReceiptsEnabled: true,
+} as const;
+
+export const getPrivacySettings = async (userId: string) => {
+  const settings = await prisma.user.findUnique({
+    where: { id: userId },
+    select: privacySelect,
+  });
+
+  if (!settings) {
+    throw createAppError('User not found', 404);
+  }
+
+  return settings;
+};
+
+// Who is looking at other users' details; broadcasts have no single viewer
+export interface PrivacyViewer {
+  userId: string;
+  friendIds: Set<string>;
+  readReceiptsEnabled: boolean;
+}
+
+export const getPrivacyViewer = async (userId: string): Promise<PrivacyViewer> => {
+  const [friendIds, settings] = await Promise.all([
+    getFriendIds(userId),
+    getPrivacySettings(userId),
+  ]);
+
+  return {
+    userId,
+    friendIds: new Set(friendIds),
+    readReceiptsEnabled: settings.readReceiptsEnabled,
+  };
+};
+
+export const formatPrivacySettings = (settings: { lastSeenVisibility: StoredLastSeenVisibility; readReceiptsEnabled: boolean }) => ({
+  lastSeenVisibility: settings.lastSeenVisibility.toLowerCase() as LastSeenVisibility,
+  readReceiptsEnabled: settings.readReceiptsEnabled,
+});
+
+// Without a viewer (a broadcast) only last-seen shared with everyone is kept
+const canSeeLastSeen = (ownerId: string, visibility: StoredLastSeenVisibility, viewer: PrivacyViewer | null) => {
+  if (viewer?.userId === ownerId) return true;
+  if (visibility === 'EVERYONE') return true;
+  if (visibility === 'FRIENDS') return !!viewer?.friendIds.has(ownerId);
+  return false;
+};
+
+// Drop last-seen the owner doesn't share with this viewer, along with the setting itself
+export const redactLastSeen = <T extends { id: string; lastSeen?: Date | null; lastSeenVisibility?: StoredLastSeenVisibility }>(
+  user: T,
+  viewer: PrivacyViewer | null = null
+) => {
+  const { lastSeenVisibility, ...rest } = user;
+  if (!('lastSeen' in user)) return rest;
+
+  const visible = canSeeLastSeen(user.id, lastSeenVisibility ?? 'EVERYONE', viewer);
+  return { ...rest, lastSeen: visible ? user.lastSeen : null };
+};
+
+// Read receipts are reciprocal: a viewer who doesn't send them doesn't see anyone else's
+export const readReceiptsVisibleWhere = (viewerId: string, viewerReceiptsEnabled: boolean) => (
+  viewerReceiptsEnabled
+    ? { OR: [{ userId: viewerId }, { user: { readReceiptsEnabled: true } }] }
+    : { userId: viewerId }
+);
+
+// Hide whether the viewer's own messages were read when they don't share receipts themselves
+export const redactReadState = <T extends { senderId: string; isRead?: boolean; readAt?: Date | null }>(
+  message: T,
+  viewerId: string,
+  viewerReceiptsEnabled: boolean
+): T => {
+  if (viewerReceiptsEnabled || message.senderId !== viewerId) return message;
+  return { ...message, isRead: false, readAt: null };
+};
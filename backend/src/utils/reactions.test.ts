@@ -0,0 +1,18 @@
+import { summarizeReactions } from './reactions';
+
+describe('summarizeReactions', () => {
+  it('groups reactions by emoji in order of first use', () => {
+    expect(summarizeReactions([
+      { emoji: '👍', userId: 'a' },
+      { emoji: '❤️', userId: 'b' },
+      { emoji: '👍', userId: 'c' },
+    ])).toEqual([
+      { emoji: '👍', count: 2, userIds: ['a', 'c'] },
+      { emoji: '❤️', count: 1, userIds: ['b'] },
+    ]);
+  });
+
+  it('returns no summaries without reactions', () => {
+    expect(summarizeReactions([])).toEqual([]);
+  });
+});
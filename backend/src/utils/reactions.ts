@@ -0,0 +1,15 @@
+import type { ReactionSummary } from '@toff/shared';
+
+// Group raw reaction rows into one summary per emoji, in order of first use
+export const summarizeReactions = (reactions: { emoji: string; userId: string }[]): ReactionSummary[] => {
+  const summaries = new Map<string, ReactionSummary>();
+
+  reactions.forEach(({ emoji, userId }) => {
+    const summary = summaries.get(emoji) || { emoji, count: 0, userIds: [] };
+    summary.count += 1;
+    summary.userIds.push(userId);
+    summaries.set(emoji, summary);
+  });
+
+  return Array.from(summaries.values());
+};
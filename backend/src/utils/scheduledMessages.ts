@@ -0,0 +1,264 @@
+import type { ScheduledMessage as StoredScheduledMessage } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { createAppError } from '../middleware/errorHandler';
+import type { AppError } from '../middleware/errorHandler';
+import { emitToUsers } from '../socket/emitter';
+import { getMembership, getMemberIds } from './conversations';
+import { sendMessage, validateMessageContent } from './messages';
+import { VALIDATION, validateRichText } from '@toff/shared';
+import type {
+  CreateScheduledMessageRequest,
+  MessageType,
+  ScheduledMessageStatus,
+  UpdateScheduledMessageRequest,
+} from '@toff/shared';
+
+// How often due messages are picked up, how many per run, and how long a claim lasts
+export const SCHEDULED_MESSAGE_CHECK_INTERVAL_MS = 10000;
+const SCHEDULED_MESSAGE_BATCH_SIZE = 50;
+const SCHEDULED_MESSAGE_CLAIM_MS = 60000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatScheduledMessage = ({ claimedUntil, ...scheduled }: StoredScheduledMessage) => ({
+  ...scheduled,
+  messageType: scheduled.messageType.toLowerCase() as MessageType,
+  status: scheduled.status.toLowerCase() as ScheduledMessageStatus,
+});
+
+// Still pending and not claimed by an instance that is sending it right now
+const unclaimedWhere = (now: Date) => ({
+  status: 'PENDING' as const,
+  OR: [
+    { claimedUntil: null },
+    { claimedUntil: { lt: now } },
+  ],
+});
+
+const parseSendAt = (sendAt: string) => {
+  const date = new Date(sendAt);
+
+  if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+    throw createAppError('Send time must be in the future', 400);
+  }
+
+  if (date.getTime() > Date.now() + VALIDATION.SCHEDULED_MESSAGE.MAX_DAYS_AHEAD * DAY_MS) {
+    throw createAppError(`Messages can be scheduled at most ${VALIDATION.SCHEDULED_MESSAGE.MAX_DAYS_AHEAD} days ahead`, 400);
+  }
+
+  return date;
+};
+
+export const scheduleMessage = async (
+  conversationId: string,
+  senderId: string,
+  data: CreateScheduledMessageRequest
+) => {
+  const membership = await getMembership(conversationId, senderId);
+
+  if (!membership) {
+    throw createAppError('Conversation not found', 404);
+  }
+
+  const sendAt = parseSendAt(data.sendAt);
+  await validateMessageContent(conversationId, data);
+
+  const pendingCount = await prisma.scheduledMessage.count({
+    where: { conversationId, senderId, status: 'PENDING' },
+  });
+
+  if (pendingCount >= VALIDATION.SCHEDULED_MESSAGE.MAX_PENDING_PER_CONVERSATION) {
+    throw createAppError(`At most ${VALIDATION.SCHEDULED_MESSAGE.MAX_PENDING_PER_CONVERSATION} messages can be scheduled per conversation`, 400);
+  }
+
+  const scheduled = await prisma.scheduledMessage.create({
+    data: {
+      conversationId,
+      senderId,
+      content: data.content || null,
+      messageType: data.messageType.toUpperCase() as any,
+      fileUrl: data.fileUrl || null,
+      fileName: data.fileName || null,
+      fileSize: data.fileSize || null,
+      fileMimeType: data.fileMimeType || null,
+      replyToId: data.replyToId || null,
+      sendAt,
+    },
+  });
+
+  return formatScheduledMessage(scheduled);
+};
+
+// The user's messages still waiting to be sent in a conversation, soonest first
+export const getScheduledMessages = async (conversationId: string, userId: string) => {
+  const membership = await getMembership(conversationId, userId);
+
+  if (!membership) {
+    throw createAppError('Conversation not found', 404);
+  }
+
+  const scheduled = await prisma.scheduledMessage.findMany({
+    where: { conversationId, senderId: userId, status: 'PENDING' },
+    orderBy: { sendAt: 'asc' },
+  });
+
+  return scheduled.map(formatScheduledMessage);
+};
+
+// Explain why a guarded change to a scheduled message matched nothing
+const findChangeBlocker = async (scheduledId: string, senderId: string) => {
+  const scheduled = await prisma.scheduledMessage.findUnique({
+    where: { id: scheduledId },
+  });
+
+  if (!scheduled || scheduled.senderId !== senderId) {
+    return createAppError('Scheduled message not found', 404);
+  }
+
+  return createAppError('Scheduled message has already been sent or cancelled', 409);
+};
+
+export const updateScheduledMessage = async (
+  scheduledId: string,
+  senderId: string,
+  data: UpdateScheduledMessageRequest
+) => {
+  const current = await prisma.scheduledMessage.findUnique({
+    where: { id: scheduledId },
+  });
+
+  if (!current || current.senderId !== senderId) {
+    throw createAppError('Scheduled message not found', 404);
+  }
+
+  if (data.content !== undefined && current.messageType === 'TEXT') {
+    if (!data.content) {
+      throw createAppError('Text messages must have content', 400);
+    }
+
+    const richTextError = validateRichText(data.content);
+    if (richTextError) {
+      throw createAppError(richTextError, 400);
+    }
+  }
+
+  const updateData: { content?: string | null; sendAt?: Date } = {};
+  if (data.content !== undefined) updateData.content = data.content || null;
+  if (data.sendAt !== undefined) updateData.sendAt = parseSendAt(data.sendAt);
+
+  // Guarded so a message the scheduler is already sending can't change under it
+  const { count } = await prisma.scheduledMessage.updateMany({
+    where: { id: scheduledId, ...unclaimedWhere(new Date()) },
+    data: updateData,
+  });
+
+  if (count === 0) {
+    throw await findChangeBlocker(scheduledId, senderId);
+  }
+
+  const scheduled = await prisma.scheduledMessage.findUniqueOrThrow({
+    where: { id: scheduledId },
+  });
+
+  return formatScheduledMessage(scheduled);
+};
+
+export const cancelScheduledMessage = async (scheduledId: string, senderId: string) => {
+  const { count } = await prisma.scheduledMessage.updateMany({
+    where: { id: scheduledId, senderId, ...unclaimedWhere(new Date()) },
+    data: { status: 'CANCELLED' },
+  });
+
+  if (count === 0) {
+    throw await findChangeBlocker(scheduledId, senderId);
+  }
+};
+
+// Send through the same path as send_message. The fixed clientMessageId makes a retry
+// after a crash (or a lapsed claim) return the stored message instead of a second copy.
+const deliverScheduledMessage = async (scheduled: StoredScheduledMessage) => {
+  try {
+    const { message, created } = await sendMessage(scheduled.conversationId, scheduled.senderId, {
+      content: scheduled.content ?? undefined,
+      messageType: scheduled.messageType.toLowerCase() as MessageType,
+      fileUrl: scheduled.fileUrl ?? undefined,
+      fileName: scheduled.fileName ?? undefined,
+      fileSize: scheduled.fileSize ?? undefined,
+      fileMimeType: scheduled.fileMimeType ?? undefined,
+      replyToId: scheduled.replyToId ?? undefined,
+      clientMessageId: `scheduled-${scheduled.id}`,
+    }, { clearDraft: false });
+
+    if (created) {
+      emitToUsers(await getMemberIds(scheduled.conversationId), 'message_received', message);
+    }
+
+    await prisma.scheduledMessage.update({
+      where: { id: scheduled.id },
+      data: { status: 'SENT', messageId: message.id, claimedUntil: null },
+    });
+
+    logger.info('Scheduled message sent:', {
+      scheduledId: scheduled.id,
+      messageId: message.id,
+      conversationId: scheduled.conversationId,
+      senderId: scheduled.senderId,
+    });
+  } catch (error) {
+    const appError = error as AppError;
+
+    // Unexpected errors keep the claim; the message is retried once it lapses
+    if (!appError.isOperational) {
+      logger.error('Error sending scheduled message:', error);
+      return;
+    }
+
+    // The message can never be sent as written, e.g. the sender left the conversation
+    await prisma.scheduledMessage.update({
+      where: { id: scheduled.id },
+      data: { status: 'FAILED', failureReason: appError.message, claimedUntil: null },
+    });
+
+    logger.warn('Scheduled message failed:', {
+      scheduledId: scheduled.id,
+      conversationId: scheduled.conversationId,
+      reason: appError.message,
+    });
+  }
+};
+
+// Send every due message (run periodically). State lives in the database, so messages
+// due while the server was down go out on the next run after startup.
+export const deliverDueScheduledMessages = async () => {
+  try {
+    const due = await prisma.scheduledMessage.findMany({
+      where: {
+        sendAt: { lte: new Date() },
+        ...unclaimedWhere(new Date()),
+      },
+      select: { id: true },
+      orderBy: { sendAt: 'asc' },
+      take: SCHEDULED_MESSAGE_BATCH_SIZE,
+    });
+
+    for (const { id } of due) {
+      const now = new Date();
+
+      // Only the instance whose claim succeeds sends the message
+      const { count } = await prisma.scheduledMessage.updateMany({
+        where: { id, sendAt: { lte: now }, ...unclaimedWhere(now) },
+        data: { claimedUntil: new Date(now.getTime() + SCHEDULED_MESSAGE_CLAIM_MS) },
+      });
+      if (count === 0) continue;
+
+      // Re-read after claiming in case it was edited in the meantime
+      const scheduled = await prisma.scheduledMessage.findUnique({ where: { id } });
+      if (scheduled) {
+        await deliverScheduledMessage(scheduled);
+      }
+    }
+  } catch (error) {
+    logger.error('Error delivering scheduled messages:', error);
+  }
+};
@@ -0,0 +1,128 @@
+import { prisma } from '../config/database';
+import { createAppError } from '../middleware/errorHandler';
+import { messageInclude, formatMessage, visibleMessageWhere } from './messages';
+import { getPrivacySettings, redactReadState } from './privacy';
+import { VALIDATION } from '@toff/shared';
+import type { MessageStarUpdatedEvent } from '@toff/shared';
+
+// Star a message for the user only; starring it again keeps the original time
+export const starMessage = async (messageId: string, userId: string): Promise<MessageStarUpdatedEvent> => {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, ...visibleMessageWhere(userId) },
+    select: { conversationId: true },
+  });
+
+  if (!message) {
+    throw createAppError('Message not found', 404);
+  }
+
+  const star = await prisma.starredMessage.upsert({
+    where: { userId_messageId: { userId, messageId } },
+    create: { userId, messageId },
+    update: {},
+  });
+
+  return {
+    conversationId: message.conversationId,
+    messageId,
+    starred: true,
+    starredAt: star.starredAt,
+  };
+};
+
+export const unstarMessage = async (messageId: string, userId: string): Promise<MessageStarUpdatedEvent> => {
+  const star = await prisma.starredMessage.findUnique({
+    where: { userId_messageId: { userId, messageId } },
+    include: { message: { select: { conversationId: true } } },
+  });
+
+  if (!star) {
+    throw createAppError('Starred message not found', 404);
+  }
+
+  await prisma.starredMessage.deleteMany({
+    where: { userId, messageId },
+  });
+
+  return {
+    conversationId: star.message.conversationId,
+    messageId,
+    starred: false,
+    starredAt: null,
+  };
+};
+
+// The user's starred messages across all conversations, most recently starred first.
+// `before` is the id of the last message on the previous page.
+export const getStarredMessages = async (
+  userId: string,
+  { before, limit = VALIDATION.STARRED.DEFAULT_PAGE_SIZE }: { before?: string; limit?: number }
+) => {
+  const cursor = before
+    ? await prisma.starredMessage.findUnique({
+        where: { userId_messageId: { userId, messageId: before } },
+      })
+    : null;
+
+  if (before && !cursor) {
+    throw createAppError('Cursor message is not starred', 400);
+  }
+
+  const { readReceiptsEnabled } = await getPrivacySettings(userId);
+
+  // Stars on messages the user can no longer see stay stored but are left out
+  const stars = await prisma.starredMessage.findMany({
+    where: {
+      userId,
+      message: visibleMessageWhere(userId),
+      ...(cursor && {
+        OR: [
+          { starredAt: { lt: cursor.starredAt } },
+          { starredAt: cursor.starredAt, id: { lt: cursor.id } },
+        ],
+      }),
+    },
+    include: {
+      message: {
+        include: {
+          ...messageInclude,
+          conversation: {
+            select: {
+              id: true,
+              type: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: [{ starredAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1, // One extra row tells us whether more remain
+  });
+
+  const hasMore = stars.length > limit;
+
+  const results = stars.slice(0, limit).map(star => {
+    const { conversation, ...message } = star.message;
+    return {
+      message: redactReadState({ ...formatMessage(message), isStarred: true }, userId, readReceiptsEnabled),
+      conversation: {
+        ...conversation,
+        type: conversation.type.toLowerCase(),
+      },
+      starredAt: star.starredAt,
+    };
+  });
+
+  return { results, hasMore };
+};
+
+// Which of these messages the user starred, for marking a page of messages
+export const getStarredMessageIds = async (userId: string, messageIds: string[]) => {
+  const stars = await prisma.starredMessage.findMany({
+    where: { userId, messageId: { in: messageIds } },
+    select: { messageId: true },
+  });
+
+  return new Set(stars.map(star => star.messageId));
+};
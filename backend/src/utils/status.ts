@@ -0,0 +1,174 @@
+import type { UserStatus as StoredUserStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { getPresenceStore } from '../socket/presenceStore';
+import { emitToUsers } from '../socket/emitter';
+import { getFriendIds } from './friends';
+import { getPrivacySettings } from './privacy';
+import type {
+  UserStatus,
+  VisibleUserStatus,
+  FriendOnlineEvent,
+  FriendOfflineEvent,
+  FriendStatusEvent,
+} from '@toff/shared';
+
+export const statusSelect = {
+  status: true,
+  statusMessage: true,
+  statusExpiresAt: true,
+} as const;
+
+interface StoredStatus {
+  status: StoredUserStatus;
+  statusMessage: string | null;
+  statusExpiresAt: Date | null;
+}
+
+interface StatusUser extends StoredStatus {
+  id: string;
+  username: string;
+  displayName: string;
+}
+
+// Invisible status that has not expired yet
+export const activeInvisibleWhere = () => ({
+  status: 'INVISIBLE' as const,
+  OR: [
+    { statusExpiresAt: null },
+    { statusExpiresAt: { gt: new Date() } },
+  ],
+});
+
+// Status as the user sees it; an expired status reads as plain online until the sweep resets it
+export const formatUserStatus = (user: StoredStatus) => {
+  const expired = !!user.statusExpiresAt && user.statusExpiresAt <= new Date();
+
+  return {
+    status: (expired ? 'online' : user.status.toLowerCase()) as UserStatus,
+    statusMessage: expired ? null : user.statusMessage,
+    statusExpiresAt: expired ? null : user.statusExpiresAt,
+  };
+};
+
+// Status as friends see it; invisible users show the default status while appearing offline
+export const formatVisibleStatus = (user: StoredStatus) => {
+  const current = formatUserStatus(user);
+
+  return {
+    ...current,
+    status: (current.status === 'invisible' ? 'online' : current.status) as VisibleUserStatus,
+  };
+};
+
+// Tell friends about a status change, turning invisibility changes into online/offline transitions
+export const announceStatusChange = async (previous: StoredStatus, user: StatusUser) => {
+  const before = formatUserStatus(previous);
+  const after = formatUserStatus(user);
+
+  if (
+    before.status === after.status &&
+    before.statusMessage === after.statusMessage &&
+    before.statusExpiresAt?.getTime() === after.statusExpiresAt?.getTime()
+  ) {
+    return;
+  }
+
+  const wasInvisible = before.status === 'invisible';
+  const isInvisible = after.status === 'invisible';
+
+  // Changes made while invisible stay private
+  if (wasInvisible && isInvisible) return;
+
+  const [friendIds, connected] = await Promise.all([
+    getFriendIds(user.id),
+    getPresenceStore().getConnectedUserIds([user.id]),
+  ]);
+  const isConnected = connected.has(user.id);
+
+  if (isInvisible) {
+    if (!isConnected) return;
+
+    const lastSeen = new Date();
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, isOnline: true },
+      data: { isOnline: false, lastSeen },
+    });
+
+    if (count > 0) {
+      const { lastSeenVisibility } = await getPrivacySettings(user.id);
+      const event: FriendOfflineEvent = {
+        userId: user.id,
+        lastSeen: lastSeenVisibility === 'NOBODY' ? null : lastSeen,
+      };
+      emitToUsers(friendIds, 'friend_offline', event);
+    }
+    return;
+  }
+
+  if (wasInvisible && isConnected) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, isOnline: false },
+      data: { isOnline: true, lastSeen: new Date() },
+    });
+
+    if (count > 0) {
+      const event: FriendOnlineEvent = {
+        userId: user.id,
+        user: {
+          id: user.id,
+          username: user.username,
+          displayName: user.displayName,
+        },
+        timestamp: new Date(),
+      };
+      emitToUsers(friendIds, 'friend_online', event);
+    }
+  }
+
+  const event: FriendStatusEvent = {
+    userId: user.id,
+    ...formatVisibleStatus(user),
+  };
+  emitToUsers(friendIds, 'friend_status_changed', event);
+};
+
+// Reset statuses whose expiry has passed and announce the change (run periodically)
+export const expireUserStatuses = async () => {
+  try {
+    const expired = await prisma.user.findMany({
+      where: { statusExpiresAt: { lte: new Date() } },
+      select: {
+        id: true,
+        username: true,
+        displayName: true,
+        ...statusSelect,
+      },
+    });
+
+    for (const user of expired) {
+      // Guarded on the expiry so only one instance resets and announces each status
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, statusExpiresAt: user.statusExpiresAt },
+        data: {
+          status: 'ONLINE',
+          statusMessage: null,
+          statusExpiresAt: null,
+        },
+      });
+      if (count === 0) continue;
+
+      // Compare against the status as it was before it lapsed
+      await announceStatusChange(
+        { ...user, statusExpiresAt: null },
+        { ...user, status: 'ONLINE', statusMessage: null, statusExpiresAt: null }
+      );
+    }
+
+    if (expired.length > 0) {
+      logger.info('Expired user statuses reset:', { count: expired.length });
+    }
+  } catch (error) {
+    logger.error('Error expiring user statuses:', error);
+  }
+};
@@ -0,0 +1,56 @@
+import { changedSinceWhere, decodeSyncCheckpoint, encodeSyncCheckpoint } from './syncCheckpoints';
+
+const at = new Date('2025-09-01T12:00:00.000Z');
+const until = new Date('2025-09-01T13:00:00.000Z');
+
+describe('sync checkpoints', () => {
+  it('encodes checkpoints without positions as plain timestamps', () => {
+    expect(encodeSyncCheckpoint({ at })).toBe('2025-09-01T12:00:00.000Z');
+    expect(encodeSyncCheckpoint({ at, after: {} })).toBe('2025-09-01T12:00:00.000Z');
+    expect(decodeSyncCheckpoint('2025-09-01T12:00:00.000Z')).toEqual({ at });
+  });
+
+  it('round-trips positions inside a timestamp', () => {
+    const checkpoint = { at, after: { readReceipts: 'r1', messages: 'm1' } };
+    const encoded = encodeSyncCheckpoint(checkpoint);
+
+    expect(encoded).not.toContain('2025');
+    expect(decodeSyncCheckpoint(encoded)).toEqual(checkpoint);
+  });
+
+  it('rejects values that are not checkpoints', () => {
+    const token = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeSyncCheckpoint('')).toBeNull();
+    expect(decodeSyncCheckpoint('12345')).toBeNull();
+    expect(decodeSyncCheckpoint('2025-13-45T99:00:00Z')).toBeNull();
+    expect(decodeSyncCheckpoint(token({ at: 'yesterday', after: {} }))).toBeNull();
+    expect(decodeSyncCheckpoint(token({ at: at.toISOString(), after: { unknown: 'x' } }))).toBeNull();
+    expect(decodeSyncCheckpoint(token({ at: at.toISOString(), after: { messages: 1 } }))).toBeNull();
+  });
+});
+
+describe('changedSinceWhere', () => {
+  it('includes the checkpoint timestamp for streams without a position', () => {
+    expect(changedSinceWhere('readAt', 'readReceipts', { at, after: { messages: 'm1' } }, until)).toEqual({
+      AND: [
+        { readAt: { lte: until } },
+        { readAt: { gte: at } },
+      ],
+    });
+  });
+
+  it('resumes after the last id within the checkpoint timestamp', () => {
+    expect(changedSinceWhere('readAt', 'readReceipts', { at, after: { readReceipts: 'r1' } }, until)).toEqual({
+      AND: [
+        { readAt: { lte: until } },
+        {
+          OR: [
+            { readAt: { gt: at } },
+            { readAt: at, id: { gt: 'r1' } },
+          ],
+        },
+      ],
+    });
+  });
+});
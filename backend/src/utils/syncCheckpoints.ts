@@ -0,0 +1,71 @@
+// Change streams read by the sync endpoint, each ordered by its change time then id
+export type SyncStream = 'messages' | 'readReceipts' | 'deliveries' | 'hiddenMessages' | 'expiredMessages';
+
+const SYNC_STREAMS: SyncStream[] = ['messages', 'readReceipts', 'deliveries', 'hiddenMessages', 'expiredMessages'];
+
+// Where a sync left off. Changes at `at` are returned again, except in streams that were cut
+// off among rows sharing that timestamp; those resume after the last id they returned.
+export interface SyncCheckpoint {
+  at: Date;
+  after?: Partial<Record<SyncStream, string>>;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+// Plain ISO timestamp when no stream stopped mid-tie, otherwise an opaque token
+export const encodeSyncCheckpoint = ({ at, after }: SyncCheckpoint): string => {
+  if (!after || Object.keys(after).length === 0) {
+    return at.toISOString();
+  }
+
+  return Buffer.from(JSON.stringify({ at: at.toISOString(), after })).toString('base64url');
+};
+
+// Checkpoint from a `since` value, or null when it isn't one
+export const decodeSyncCheckpoint = (value: string): SyncCheckpoint | null => {
+  if (ISO_DATE_PATTERN.test(value)) {
+    const at = new Date(value);
+    return Number.isNaN(at.getTime()) ? null : { at };
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const at = typeof decoded?.at === 'string' && ISO_DATE_PATTERN.test(decoded.at) ? new Date(decoded.at) : null;
+    if (!at || Number.isNaN(at.getTime())) return null;
+
+    if (typeof decoded.after !== 'object' || decoded.after === null) return null;
+    const after: Partial<Record<SyncStream, string>> = {};
+    for (const [stream, id] of Object.entries(decoded.after)) {
+      if (!SYNC_STREAMS.includes(stream as SyncStream) || typeof id !== 'string') return null;
+      after[stream as SyncStream] = id;
+    }
+
+    return { at, after };
+  } catch {
+    return null;
+  }
+};
+
+// Rows of one stream changed since a checkpoint and no later than `until`
+export const changedSinceWhere = <K extends string>(
+  field: K,
+  stream: SyncStream,
+  since: SyncCheckpoint,
+  until: Date
+) => {
+  const afterId = since.after?.[stream];
+
+  return {
+    AND: [
+      { [field]: { lte: until } } as Record<K, { lte: Date }>,
+      afterId
+        ? {
+          OR: [
+            { [field]: { gt: since.at } } as Record<K, { gt: Date }>,
+            { [field]: since.at, id: { gt: afterId } } as Record<K, Date> & { id: { gt: string } },
+          ],
+        }
+        : { [field]: { gte: since.at } } as Record<K, { gte: Date }>,
+    ],
+  };
+};
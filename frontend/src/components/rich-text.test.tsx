@@ -0,0 +1,46 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { RichText, RichTextPreview } from './rich-text';
+
+const render = (content: string) => renderToStaticMarkup(<RichText content={content} />);
+const preview = (content: string) => renderToStaticMarkup(<RichTextPreview content={content} />);
+
+describe('RichText', () => {
+  it('escapes HTML in message content', () => {
+    const html = render('<img src=x onerror=alert(1)> **<b>hi</b>**');
+
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('<strong><span>&lt;b&gt;hi&lt;/b&gt;</span></strong>');
+  });
+
+  it('renders markup as elements', () => {
+    const html = render('**bold** *it* `a < b`\n\n```ts\nconst x = 1;\n```\n> quoted');
+
+    expect(html).toContain('<strong><span>bold</span></strong>');
+    expect(html).toContain('<em><span>it</span></em>');
+    expect(html).toMatch(/<code[^>]*>a &lt; b<\/code>/);
+    expect(html).toMatch(/<pre[^>]*><code data-language="ts">const x = 1;<\/code><\/pre>/);
+    expect(html).toMatch(/<blockquote[^>]*><p><span>quoted<\/span><\/p><\/blockquote>/);
+  });
+
+  it('links only safe URLs', () => {
+    expect(render('[site](https://example.com)')).toMatch(/<a href="https:\/\/example.com" target="_blank" rel="noopener noreferrer nofollow"/);
+
+    const unsafe = render('[click](javascript:alert(1))');
+    expect(unsafe).not.toContain('<a');
+    expect(unsafe).toContain('javascript:alert(1)');
+  });
+});
+
+describe('RichTextPreview', () => {
+  it('renders a single line without blocks or links', () => {
+    const html = preview('**hi** see https://example.com\n\n```\na\n  b\n```\n> quoted');
+
+    expect(html).not.toMatch(/<(p|pre|blockquote|a|br)\b/);
+    expect(html).toContain('<strong><span>hi</span></strong>');
+    expect(html).toContain('https://example.com');
+    expect(html).toMatch(/<code[^>]*>a b<\/code>/);
+    expect(html).toContain('quoted');
+  });
+});
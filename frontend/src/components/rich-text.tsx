@@ -0,0 +1,139 @@
+'use client';
+
+import { useMemo } from 'react';
+import { parseRichText } from '@toff/shared';
+import type { RichTextBlock, RichTextInline } from '@toff/shared';
+import { cn } from '@/lib/utils';
+
+// Message markdown rendered from the shared parser's tree. Every node becomes a React element
+// with text children, so message content is never injected as HTML.
+
+function InlineNodes({ nodes }: { nodes: RichTextInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <span key={index}>{node.text}</span>;
+          case 'bold':
+            return <strong key={index}><InlineNodes nodes={node.children} /></strong>;
+          case 'italic':
+            return <em key={index}><InlineNodes nodes={node.children} /></em>;
+          case 'code':
+            return (
+              <code key={index} className="rounded bg-black/30 px-1 py-0.5 font-mono text-[0.9em]">
+                {node.text}
+              </code>
+            );
+          case 'link':
+            // The parser only produces http(s) and mailto links
+            return (
+              <a
+                key={index}
+                href={node.url}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="underline underline-offset-2 hover:opacity-80"
+              >
+                <InlineNodes nodes={node.children} />
+              </a>
+            );
+          case 'line_break':
+            return <br key={index} />;
+        }
+      })}
+    </>
+  );
+}
+
+function BlockNodes({ blocks }: { blocks: RichTextBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={index}><InlineNodes nodes={block.children} /></p>;
+          case 'code_block':
+            return (
+              <pre key={index} className="overflow-x-auto rounded-md bg-black/30 p-2 font-mono text-sm">
+                <code data-language={block.language ?? undefined}>{block.text}</code>
+              </pre>
+            );
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-2 border-current/40 pl-2 opacity-80">
+                <BlockNodes blocks={block.children} />
+              </blockquote>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+interface RichTextProps {
+  content: string;
+  className?: string;
+}
+
+export function RichText({ content, className }: RichTextProps) {
+  const document = useMemo(() => parseRichText(content), [content]);
+
+  return (
+    <div className={cn('space-y-1 break-words whitespace-pre-wrap', className)}>
+      <BlockNodes blocks={document.children} />
+    </div>
+  );
+}
+
+// One line of the same markup for previews: breaks and block boundaries become spaces and
+// links are plain text, since the preview itself is usually clickable
+function PreviewInlineNodes({ nodes }: { nodes: RichTextInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <span key={index}>{node.text}</span>;
+          case 'bold':
+            return <strong key={index}><PreviewInlineNodes nodes={node.children} /></strong>;
+          case 'italic':
+            return <em key={index}><PreviewInlineNodes nodes={node.children} /></em>;
+          case 'code':
+            return <code key={index} className="font-mono text-[0.9em]">{node.text}</code>;
+          case 'link':
+            return <span key={index}><PreviewInlineNodes nodes={node.children} /></span>;
+          case 'line_break':
+            return <span key={index}> </span>;
+        }
+      })}
+    </>
+  );
+}
+
+function PreviewBlockNodes({ blocks }: { blocks: RichTextBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, index) => (
+        <span key={index}>
+          {index > 0 && ' '}
+          {block.type === 'paragraph' && <PreviewInlineNodes nodes={block.children} />}
+          {block.type === 'code_block' && (
+            <code className="font-mono text-[0.9em]">{block.text.replace(/\s+/g, ' ')}</code>
+          )}
+          {block.type === 'quote' && <PreviewBlockNodes blocks={block.children} />}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function RichTextPreview({ content, className }: RichTextProps) {
+  const document = useMemo(() => parseRichText(content), [content]);
+
+  return (
+    <span className={className}>
+      <PreviewBlockNodes blocks={document.children} />
+    </span>
+  );
+}
@@ -3,9 +3,10 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuthStore } from '@/store/auth';
+import { useConversationsStore } from '@/store/conversations';
 import { apiClient } from '@/lib/api';
 import { TokenManager } from '@/utils/tokenManager';
-import type { SocketEvents } from '@toff/shared';
+import type { BacklogCompleteEvent, MessageBacklogEvent, SocketEvents } from '@toff/shared';
 
 interface SocketContextType {
   socket: Socket<SocketEvents> | null;
@@ -73,6 +74,19 @@ export function SocketProvider({ children }: SocketProviderProps) {
         setIsConnected(true);
       });
 
+      // Registered before the connection opens so the backlog pushed on connect is never missed
+      socketInstance.on('message_backlog', (data: MessageBacklogEvent, ack: () => void) => {
+        const { addMessage } = useConversationsStore.getState();
+        data.messages.forEach(message => addMessage(message.conversationId, message));
+        ack();
+      });
+
+      socketInstance.on('backlog_complete', (data: BacklogCompleteEvent) => {
+        if (data.count > 0) {
+          useConversationsStore.getState().refreshConversations();
+        }
+      });
+
       socketInstance.on('disconnect', () => {
         console.log('Socket disconnected');
         setIsConnected(false);
@@ -5,8 +5,12 @@ import { MessageCircle, Search, Plus, RefreshCw } from 'lucide-react';
 import { useAuthStore } from '@/store/auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { RichTextPreview } from '@/components/rich-text';
 import { cn } from '@/lib/utils';
+import { apiClient } from '@/lib/api';
 import { usePullToRefresh, useHapticFeedback, useTouch } from '@/hooks/useTouch';
+import { formatMessageTime, parseSearchSnippet } from '@toff/shared';
+import type { MessageSearchHit } from '@toff/shared';
 
 interface ChatItem {
   id: string;
@@ -46,6 +50,10 @@ const mockChats: ChatItem[] = [
   },
 ];
 
+// Minimum query length before searching message contents
+const MESSAGE_SEARCH_MIN_LENGTH = 2;
+const MESSAGE_SEARCH_DELAY_MS = 300;
+
 interface ChatsTabProps {
   onChatSelect?: (chatId: string) => void;
   onFindFriends?: () => void;
@@ -54,6 +62,8 @@ interface ChatsTabProps {
 export function ChatsTab({ onChatSelect, onFindFriends }: ChatsTabProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [chats, setChats] = useState<ChatItem[]>(mockChats);
+  const [messageResults, setMessageResults] = useState<MessageSearchHit[]>([]);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
   const { user } = useAuthStore();
   const { triggerSelection, triggerImpact } = useHapticFeedback();
 
@@ -61,6 +71,36 @@ export function ChatsTab({ onChatSelect, onFindFriends }: ChatsTabProps) {
     chat.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Search message contents once the user pauses typing
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < MESSAGE_SEARCH_MIN_LENGTH) {
+      setMessageResults([]);
+      setIsSearchingMessages(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearchingMessages(true);
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const data = await apiClient.searchMessages({ q: query, limit: 20 });
+        if (!cancelled) setMessageResults(data.results);
+      } catch (error) {
+        console.error('Failed to search messages:', error);
+        if (!cancelled) setMessageResults([]);
+      } finally {
+        if (!cancelled) setIsSearchingMessages(false);
+      }
+    }, MESSAGE_SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchQuery]);
+
   const handleRefresh = async () => {
     // Simulate API call to refresh chats
     await new Promise(resolve => setTimeout(resolve, 1000));
@@ -141,7 +181,7 @@ export function ChatsTab({ onChatSelect, onFindFriends }: ChatsTabProps) {
         <div className="relative max-w-2xl mx-auto">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-secondary" />
           <Input
-            placeholder="Search conversations..."
+            placeholder="Search conversations and messages..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10 bg-secondary/20 border-secondary/30"
@@ -195,7 +235,7 @@ export function ChatsTab({ onChatSelect, onFindFriends }: ChatsTabProps) {
                       </span>
                     </div>
                     <p className="text-sm text-secondary truncate">
-                      {chat.lastMessage}
+                      <RichTextPreview content={chat.lastMessage} />
                     </p>
                   </div>
 
@@ -209,6 +249,53 @@ export function ChatsTab({ onChatSelect, onFindFriends }: ChatsTabProps) {
               ))}
             </div>
           )}
+
+          {/* Message Search Results */}
+          {searchQuery.trim().length >= MESSAGE_SEARCH_MIN_LENGTH && (
+            <div className="border-t border-border">
+              <h3 className="px-4 md:px-6 lg:px-8 pt-4 pb-2 text-xs font-semibold uppercase tracking-wide text-secondary">
+                Messages
+              </h3>
+              {isSearchingMessages && messageResults.length === 0 ? (
+                <p className="px-4 md:px-6 lg:px-8 pb-4 text-sm text-secondary">Searching...</p>
+              ) : messageResults.length === 0 ? (
+                <p className="px-4 md:px-6 lg:px-8 pb-4 text-sm text-secondary">No messages found</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {messageResults.map((result) => (
+                    <div
+                      key={result.message.id}
+                      onClick={() => handleChatClick(result.conversation.id)}
+                      className={cn(
+                        "p-4 md:p-6 lg:px-8 lg:py-4 hover:bg-secondary/20",
+                        "active:bg-secondary/30 transition-colors",
+                        "cursor-pointer touch-action-manipulation"
+                      )}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <h4 className="font-medium text-white truncate">
+                          {result.conversation.name || result.message.sender?.displayName}
+                        </h4>
+                        <span className="text-xs text-secondary flex-shrink-0">
+                          {formatMessageTime(result.message.createdAt)}
+                        </span>
+                      </div>
+                      {/* Snippet segments are rendered as text, never as HTML */}
+                      <p className="text-sm text-secondary line-clamp-2">
+                        {parseSearchSnippet(result.snippet).map((segment, index) => (
+                          segment.highlighted ? (
+                            <span key={index} className="text-accent font-medium">{segment.text}</span>
+                          ) : (
+                            <span key={index}>{segment.text}</span>
+                          )
+                        ))}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -1,10 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Search, UserPlus, MessageCircle, UserMinus, Users, Heart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { useSocket } from '@/components/socket-provider';
+import { apiClient } from '@/lib/api';
 import { cn } from '@/lib/utils';
+import type {
+  FriendOfflineEvent,
+  FriendOnlineEvent,
+  FriendStatusEvent,
+  UserPresence,
+  VisibleUserStatus,
+} from '@toff/shared';
 
 interface Friend {
   id: string;
@@ -12,6 +21,8 @@ interface Friend {
   username: string;
   email: string;
   isOnline: boolean;
+  status: VisibleUserStatus;
+  statusMessage: string | null;
   avatar?: string;
 }
 
@@ -23,24 +34,13 @@ interface SuggestedUser {
   avatar?: string;
 }
 
-// Mock data - will be replaced with real API calls
-const mockFriends: Friend[] = [
-  {
-    id: '1',
-    name: 'Alice Johnson',
-    username: 'alice_j',
-    email: 'alice@example.com',
-    isOnline: true,
-  },
-  {
-    id: '2',
-    name: 'Bob Smith',
-    username: 'bob_smith',
-    email: 'bob@example.com',
-    isOnline: false,
-  },
-];
+const statusDotClass: Record<VisibleUserStatus, string> = {
+  online: 'bg-green-500',
+  away: 'bg-accent',
+  busy: 'bg-red-500',
+};
 
+// Mock data - will be replaced with real API calls
 const mockSuggestions: SuggestedUser[] = [
   {
     id: '3',
@@ -64,8 +64,65 @@ interface FriendsTabProps {
 export function FriendsTab({ onMessageFriend, onSearchUsers }: FriendsTabProps) {
   const [activeSubTab, setActiveSubTab] = useState<'find' | 'friends' | 'suggestions'>('find');
   const [searchQuery, setSearchQuery] = useState('');
-  const [friends, setFriends] = useState<Friend[]>(mockFriends);
+  const [friends, setFriends] = useState<Friend[]>([]);
   const [suggestions, setSuggestions] = useState<SuggestedUser[]>(mockSuggestions);
+  const { socket } = useSocket();
+
+  // Load friends together with their current presence and status
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([apiClient.getFriends(), apiClient.getFriendsPresence()])
+      .then(([friendships, presence]: [{ friends: any[] }, UserPresence[]]) => {
+        if (cancelled) return;
+        const presenceById = new Map(presence.map(p => [p.userId, p]));
+
+        setFriends(friendships.friends.map(({ user }) => {
+          const current = presenceById.get(user.id);
+          return {
+            id: user.id,
+            name: user.displayName,
+            username: user.username,
+            email: user.email,
+            avatar: user.avatarUrl,
+            isOnline: current?.isOnline ?? false,
+            status: current?.status ?? 'online',
+            statusMessage: current?.statusMessage ?? null,
+          };
+        }));
+      })
+      .catch(error => console.error('Failed to load friends:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Keep presence and status current while the tab is open
+  useEffect(() => {
+    if (!socket) return;
+
+    const updateFriend = (userId: string, changes: Partial<Friend>) => {
+      setFriends(prev => prev.map(friend => (friend.id === userId ? { ...friend, ...changes } : friend)));
+    };
+
+    const handleFriendOnline = (data: FriendOnlineEvent) => updateFriend(data.userId, { isOnline: true });
+    const handleFriendOffline = (data: FriendOfflineEvent) => updateFriend(data.userId, { isOnline: false });
+    const handleFriendStatusChanged = (data: FriendStatusEvent) => updateFriend(data.userId, {
+      status: data.status,
+      statusMessage: data.statusMessage,
+    });
+
+    socket.on('friend_online', handleFriendOnline);
+    socket.on('friend_offline', handleFriendOffline);
+    socket.on('friend_status_changed', handleFriendStatusChanged);
+
+    return () => {
+      socket.off('friend_online', handleFriendOnline);
+      socket.off('friend_offline', handleFriendOffline);
+      socket.off('friend_status_changed', handleFriendStatusChanged);
+    };
+  }, [socket]);
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -237,7 +294,10 @@ function MyFriendsContent({
                   </span>
                 </div>
                 {friend.isOnline && (
-                  <div className="absolute -bottom-0.5 -right-0.5 w-4 h-4 bg-green-500 border-2 border-black rounded-full" />
+                  <div className={cn(
+                    "absolute -bottom-0.5 -right-0.5 w-4 h-4 border-2 border-black rounded-full",
+                    statusDotClass[friend.status]
+                  )} />
                 )}
               </div>
 
@@ -245,6 +305,9 @@ function MyFriendsContent({
               <div className="flex-1 min-w-0">
                 <h4 className="font-medium text-white">{friend.name}</h4>
                 <p className="text-sm text-secondary">@{friend.username}</p>
+                {friend.statusMessage && (
+                  <p className="text-xs text-secondary truncate">{friend.statusMessage}</p>
+                )}
               </div>
 
               {/* Actions */}
@@ -6,6 +6,7 @@ import {
   Camera, 
   Bell, 
   Database,
+  Lock,
   LogOut,
   ChevronDown
 } from 'lucide-react';
@@ -14,6 +15,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { Logo } from '@/components/ui/logo';
+import { apiClient } from '@/lib/api';
+import { VALIDATION } from '@toff/shared';
+import type { LastSeenVisibility, UpdatePrivacyRequest, UserProfile, UserStatus } from '@toff/shared';
 
 interface SettingsTabProps {
   onLogout?: () => void;
@@ -21,7 +25,7 @@ interface SettingsTabProps {
 
 export function SettingsTab({ onLogout }: SettingsTabProps) {
   const { user, logout } = useAuthStore();
-  const [activeTab, setActiveTab] = useState<'profile' | 'data' | 'notifications'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'privacy' | 'data' | 'notifications'>('profile');
 
   const handleLogout = async () => {
     await logout();
@@ -68,6 +72,18 @@ export function SettingsTab({ onLogout }: SettingsTabProps) {
           <User className="w-4 h-4 mr-2" />
           Profile
         </button>
+        <button
+          onClick={() => setActiveTab('privacy')}
+          className={cn(
+            "flex-1 flex items-center justify-center px-4 py-3 text-sm font-medium border-b-2 transition-colors",
+            activeTab === 'privacy'
+              ? "text-white border-accent"
+              : "text-secondary border-transparent hover:text-white"
+          )}
+        >
+          <Lock className="w-4 h-4 mr-2" />
+          Privacy
+        </button>
         <button
           onClick={() => setActiveTab('data')}
           className={cn(
@@ -97,6 +113,7 @@ export function SettingsTab({ onLogout }: SettingsTabProps) {
       {/* Content */}
       <div className="flex-1 overflow-y-auto">
         {activeTab === 'profile' && <ProfileTab user={user} />}
+        {activeTab === 'privacy' && <PrivacyTab user={user} />}
         {activeTab === 'data' && <DataTab />}
         {activeTab === 'notifications' && <NotificationsTab />}
       </div>
@@ -104,21 +121,58 @@ export function SettingsTab({ onLogout }: SettingsTabProps) {
   );
 }
 
+// How long a custom status lasts before reverting to online, in minutes (0 keeps it until changed)
+const STATUS_DURATIONS = [
+  { label: "Don't clear", minutes: 0 },
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 240 },
+  { label: 'Today', minutes: -1 },
+];
+
+const statusExpiryFor = (minutes: number): string | null => {
+  if (minutes === 0) return null;
+  if (minutes === -1) {
+    const endOfDay = new Date();
+    endOfDay.setHours(23, 59, 59, 999);
+    return endOfDay.toISOString();
+  }
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+};
+
 // Profile Tab Component
 function ProfileTab({ user }: { user: any }) {
+  const { updateUser } = useAuthStore();
   const [formData, setFormData] = useState({
     displayName: user.displayName || 'Tafar',
     bio: user.bio || 'A.k.a the app Owner',
-    status: user.status || 'away',
+    status: (user.status || 'online') as UserStatus,
+    statusMessage: user.statusMessage || '',
+    statusDuration: 0,
   });
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
-  const handleInputChange = (field: string, value: string) => {
+  const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleUpdateProfile = () => {
-    // TODO: Implement profile update
-    console.log('Updating profile:', formData);
+  const handleUpdateProfile = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const updated = await apiClient.updateProfile({
+        displayName: formData.displayName,
+        status: formData.status,
+        statusMessage: formData.statusMessage.trim() || null,
+        statusExpiresAt: statusExpiryFor(formData.statusDuration),
+      });
+      updateUser(updated);
+    } catch (error: any) {
+      setSaveError(error.response?.data?.error || 'Failed to update profile');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -194,6 +248,47 @@ function ProfileTab({ user }: { user: any }) {
               </select>
               <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
             </div>
+            {formData.status === 'invisible' && (
+              <p className="text-xs text-secondary mt-1">You will appear offline to your friends</p>
+            )}
+          </div>
+
+          {/* Status Message */}
+          <div>
+            <label className="block text-accent text-sm font-medium mb-2">
+              Status Message ({formData.statusMessage.length}/{VALIDATION.STATUS.MESSAGE_MAX_LENGTH})
+            </label>
+            <Input
+              value={formData.statusMessage}
+              onChange={(e) => handleInputChange('statusMessage', e.target.value)}
+              maxLength={VALIDATION.STATUS.MESSAGE_MAX_LENGTH}
+              className="bg-secondary/20 border-secondary/30 text-white"
+              placeholder="What's happening?"
+            />
+          </div>
+
+          {/* Status Expiry */}
+          <div>
+            <label className="block text-accent text-sm font-medium mb-2">
+              Clear Status After
+            </label>
+            <div className="relative">
+              <select
+                value={formData.statusDuration}
+                onChange={(e) => handleInputChange('statusDuration', Number(e.target.value))}
+                className="w-full p-3 bg-secondary/20 border border-secondary/30 rounded-lg text-white appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent/50"
+              >
+                {STATUS_DURATIONS.map(duration => (
+                  <option key={duration.minutes} value={duration.minutes}>{duration.label}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
+            </div>
+            {user.statusExpiresAt && (
+              <p className="text-xs text-secondary mt-1">
+                Current status clears at {new Date(user.statusExpiresAt).toLocaleString()}
+              </p>
+            )}
           </div>
 
           {/* Email (Read-only) */}
@@ -207,12 +302,17 @@ function ProfileTab({ user }: { user: any }) {
             </div>
           </div>
 
+          {saveError && (
+            <p className="text-sm text-red-400">{saveError}</p>
+          )}
+
           {/* Update Button */}
           <Button
             onClick={handleUpdateProfile}
+            disabled={isSaving}
             className="w-full bg-accent hover:bg-accent/90 text-black font-medium py-3 mt-6"
           >
-            Update Profile
+            {isSaving ? 'Saving...' : 'Update Profile'}
           </Button>
         </div>
       </div>
@@ -240,8 +340,86 @@ function ProfileTab({ user }: { user: any }) {
                 formData.status === 'busy' ? 'bg-red-500' : 'bg-gray-500'
               )}></div>
               <span className="text-accent text-sm capitalize">{formData.status}</span>
+              {formData.statusMessage && (
+                <span className="text-secondary text-sm ml-2 truncate">· {formData.statusMessage}</span>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Privacy Tab Component
+function PrivacyTab({ user }: { user: UserProfile }) {
+  const { updateUser } = useAuthStore();
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const lastSeenVisibility = user.lastSeenVisibility ?? 'everyone';
+  const readReceiptsEnabled = user.readReceiptsEnabled ?? true;
+
+  // Settings apply immediately, like a toggle in a mobile settings screen
+  const savePrivacy = async (changes: UpdatePrivacyRequest) => {
+    setSaveError(null);
+    try {
+      updateUser(await apiClient.updatePrivacy(changes));
+    } catch (error: any) {
+      setSaveError(error.response?.data?.error || 'Failed to update privacy settings');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-6 lg:p-8">
+      <div className="bg-secondary/10 border border-border rounded-xl p-6">
+        <h2 className="text-xl font-semibold text-white mb-6">Privacy</h2>
+
+        <div className="space-y-6">
+          {/* Last Seen */}
+          <div>
+            <label className="block text-accent text-sm font-medium mb-2">
+              Who can see my last seen
+            </label>
+            <div className="relative">
+              <select
+                value={lastSeenVisibility}
+                onChange={(e) => savePrivacy({ lastSeenVisibility: e.target.value as LastSeenVisibility })}
+                className="w-full p-3 bg-secondary/20 border border-secondary/30 rounded-lg text-white appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent/50"
+              >
+                <option value="everyone">Everyone</option>
+                <option value="friends">My friends</option>
+                <option value="nobody">Nobody</option>
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
+            </div>
+          </div>
+
+          {/* Read Receipts */}
+          <div className="flex items-start justify-between space-x-4">
+            <div>
+              <p className="text-white font-medium">Read receipts</p>
+              <p className="text-xs text-secondary mt-1">
+                If you turn off read receipts, you won't be able to see read receipts from other people.
+              </p>
             </div>
+            <button
+              role="switch"
+              aria-checked={readReceiptsEnabled}
+              onClick={() => savePrivacy({ readReceiptsEnabled: !readReceiptsEnabled })}
+              className={cn(
+                "relative flex-shrink-0 w-11 h-6 rounded-full transition-colors",
+                readReceiptsEnabled ? 'bg-accent' : 'bg-secondary/40'
+              )}
+            >
+              <span className={cn(
+                "absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform",
+                readReceiptsEnabled && 'translate-x-5'
+              )} />
+            </button>
           </div>
+
+          {saveError && (
+            <p className="text-sm text-red-400">{saveError}</p>
+          )}
         </div>
       </div>
     </div>
@@ -2,7 +2,33 @@ import { useEffect, useRef } from 'react';
 import { useSocket as useSocketContext } from '@/components/socket-provider';
 import { useConversationsStore } from '@/store/conversations';
 import { useAuthStore } from '@/store/auth';
-import type { Message } from '@toff/shared';
+import { useStarredMessagesStore } from '@/store/starred';
+import { useMentionsStore } from '@/store/mentions';
+import { apiClient } from '@/lib/api';
+import { PRESENCE, DISAPPEARING_MESSAGES } from '@toff/shared';
+import type {
+  Conversation,
+  ConversationDraft,
+  ConversationMember,
+  ConversationSettings,
+  DeleteMessageScope,
+  FriendOfflineEvent,
+  FriendOnlineEvent,
+  MentionReceivedEvent,
+  Message,
+  MessageDeletedEvent,
+  MessagesExpiredEvent,
+  MessageDeliveredEvent,
+  MessageStarUpdatedEvent,
+  MessageUnpinnedEvent,
+  PinnedMessage,
+  ReactionEvent,
+  SocketAck,
+} from '@toff/shared';
+
+// How long to wait for the server to acknowledge a send, and how often to retry
+const SEND_ACK_TIMEOUT_MS = 10000;
+const SEND_MAX_RETRIES = 2;
 
 interface TypingUser {
   userId: string;
@@ -17,14 +43,33 @@ interface UseSocketOptions {
   onMessageReceived?: (message: Message) => void;
   onUserTyping?: (data: TypingUser & { conversationId: string }) => void;
   onUserStoppedTyping?: (data: { userId: string; conversationId: string }) => void;
-  onUserOnline?: (data: { userId: string; user: any }) => void;
-  onUserOffline?: (data: { userId: string; lastSeen: Date }) => void;
+  onUserOnline?: (data: FriendOnlineEvent) => void;
+  onUserOffline?: (data: FriendOfflineEvent) => void;
 }
 
 export const useSocketEvents = (options: UseSocketOptions = {}) => {
   const { socket, isConnected } = useSocketContext();
   const { user } = useAuthStore();
-  const { addMessage, updateMessage, markMessagesAsRead } = useConversationsStore();
+  const {
+    addMessage,
+    updateMessage,
+    applyMessageDeletion,
+    removeExpiredMessages,
+    pruneExpiredMessages,
+    applyMessagePinned,
+    applyMessageUnpinned,
+    syncChanges,
+    markMessagesAsRead,
+    upsertConversation,
+    removeConversation,
+    applyConversationSettings,
+    applyDraft,
+    addMembers,
+    removeMember,
+    updateMember,
+  } = useConversationsStore();
+  const { applyStarUpdate, removeStarred } = useStarredMessagesStore();
+  const { applyMentionReceived, markMentionsRead, markConversationMentionsRead } = useMentionsStore();
   
   const currentConversationId = useRef<string | null>(null);
   const typingTimeouts = useRef<Record<string, NodeJS.Timeout>>({});
@@ -32,23 +77,29 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
   useEffect(() => {
     if (!socket || !isConnected || !user) return;
 
+    // Catch up on anything missed while disconnected; the first run just records a checkpoint
+    syncChanges();
+
     // Message events
     const handleMessageReceived = (message: Message) => {
       addMessage(message.conversationId, message);
+
+      // Confirm receipt so the sender sees the message as delivered
+      if (message.senderId !== user.id) {
+        socket.emit('mark_delivered', { messageIds: [message.id] });
+      }
+
       options.onMessageReceived?.(message);
     };
 
-    const handleMessageDelivered = (data: { messageId: string; deliveredAt: Date }) => {
-      // Find which conversation this message belongs to
-      const { messages } = useConversationsStore.getState();
-      for (const [conversationId, msgs] of Object.entries(messages)) {
-        const message = msgs.find(m => m.id === data.messageId);
-        if (message) {
-          updateMessage(conversationId, data.messageId, {
-            deliveredAt: data.deliveredAt
-          });
-          break;
-        }
+    const handleMessageDelivered = (data: MessageDeliveredEvent) => {
+      const message = useConversationsStore.getState().messages[data.conversationId]?.find(m => m.id === data.messageId);
+
+      // Keep the first delivery time, matching the server
+      if (message && !message.deliveredAt) {
+        updateMessage(data.conversationId, data.messageId, {
+          deliveredAt: data.deliveredAt
+        });
       }
     };
 
@@ -69,6 +120,43 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
       }
     };
 
+    const handleMessageEdited = (message: Message) => {
+      updateMessage(message.conversationId, message.id, message);
+    };
+
+    // Link previews are attached after the message was sent
+    const handleMessageUpdated = (message: Message) => {
+      updateMessage(message.conversationId, message.id, { linkPreview: message.linkPreview });
+    };
+
+    const handleMessageDeleted = (data: MessageDeletedEvent) => {
+      applyMessageDeletion(data);
+      removeStarred([data.messageId]);
+    };
+
+    const handleMessagesExpired = (data: MessagesExpiredEvent) => {
+      removeExpiredMessages(data);
+      removeStarred(data.messageIds);
+    };
+
+    const handleMessagePinned = (data: PinnedMessage) => {
+      applyMessagePinned(data);
+    };
+
+    const handleMessageUnpinned = (data: MessageUnpinnedEvent) => {
+      applyMessageUnpinned(data);
+    };
+
+    // Disappearing messages leave the screen on time even between server cleanups
+    const pruneInterval = setInterval(pruneExpiredMessages, DISAPPEARING_MESSAGES.LOCAL_PRUNE_INTERVAL_MS);
+
+    // Reaction events carry the emoji's new summary, merged in place by the store
+    const handleReactionChanged = (data: ReactionEvent) => {
+      updateMessage(data.conversationId, data.messageId, {
+        reactions: [data.reaction],
+      });
+    };
+
     // Typing events
     const handleUserTyping = (data: TypingUser & { conversationId: string }) => {
       if (data.userId === user.id) return; // Ignore own typing
@@ -80,14 +168,14 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
         clearTimeout(typingTimeouts.current[data.userId]);
       }
       
-      // Auto-stop typing after 3 seconds of inactivity
+      // Auto-stop typing if no further typing event arrives before it would expire on the server
       typingTimeouts.current[data.userId] = setTimeout(() => {
         options.onUserStoppedTyping?.({
           userId: data.userId,
           conversationId: data.conversationId
         });
         delete typingTimeouts.current[data.userId];
-      }, 3000);
+      }, PRESENCE.TYPING_TTL_MS);
     };
 
     const handleUserStoppedTyping = (data: { userId: string; conversationId: string }) => {
@@ -102,41 +190,137 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
     };
 
     // Online status events
-    const handleFriendOnline = (data: { userId: string; user: any }) => {
+    const handleFriendOnline = (data: FriendOnlineEvent) => {
       options.onUserOnline?.(data);
     };
 
-    const handleFriendOffline = (data: { userId: string; lastSeen: Date }) => {
+    const handleFriendOffline = (data: FriendOfflineEvent) => {
       options.onUserOffline?.(data);
     };
 
+    // Conversation and group membership events
+    const handleConversationChanged = (conversation: Conversation) => {
+      upsertConversation(conversation);
+    };
+
+    const handleMembersAdded = (data: { conversationId: string; members: ConversationMember[] }) => {
+      addMembers(data.conversationId, data.members);
+    };
+
+    const handleMemberRemoved = (data: { conversationId: string; userId: string }) => {
+      if (data.userId === user.id) {
+        removeConversation(data.conversationId);
+      } else {
+        removeMember(data.conversationId, data.userId);
+      }
+    };
+
+    const handleMemberRoleUpdated = (data: { conversationId: string; member: ConversationMember }) => {
+      updateMember(data.conversationId, data.member);
+    };
+
+    // Mute, archive and pin changes from any of the user's devices
+    const handleConversationSettingsUpdated = (settings: ConversationSettings) => {
+      applyConversationSettings(settings);
+    };
+
+    // Drafts typed on another device, or cleared by sending
+    const handleDraftUpdated = (draft: ConversationDraft) => {
+      applyDraft(draft);
+    };
+
+    // Stars added or removed on any of the user's devices
+    const handleMessageStarUpdated = (data: MessageStarUpdatedEvent) => {
+      applyStarUpdate(data);
+    };
+
+    // Mentions come on their own event so they can notify even in muted conversations
+    const handleMentionReceived = (data: MentionReceivedEvent) => {
+      applyMentionReceived(data);
+    };
+
     // Register event listeners
     socket.on('message_received', handleMessageReceived);
     socket.on('message_delivered', handleMessageDelivered);
     socket.on('message_read', handleMessageRead);
+    socket.on('message_edited', handleMessageEdited);
+    socket.on('message_updated', handleMessageUpdated);
+    socket.on('message_deleted', handleMessageDeleted);
+    socket.on('messages_expired', handleMessagesExpired);
+    socket.on('message_pinned', handleMessagePinned);
+    socket.on('message_unpinned', handleMessageUnpinned);
+    socket.on('reaction_added', handleReactionChanged);
+    socket.on('reaction_removed', handleReactionChanged);
     socket.on('user_typing', handleUserTyping);
     socket.on('user_stopped_typing', handleUserStoppedTyping);
     socket.on('friend_online', handleFriendOnline);
     socket.on('friend_offline', handleFriendOffline);
-
-    // Emit user online status
-    socket.emit('user_online');
+    socket.on('conversation_created', handleConversationChanged);
+    socket.on('conversation_updated', handleConversationChanged);
+    socket.on('members_added', handleMembersAdded);
+    socket.on('member_removed', handleMemberRemoved);
+    socket.on('member_role_updated', handleMemberRoleUpdated);
+    socket.on('conversation_settings_updated', handleConversationSettingsUpdated);
+    socket.on('draft_updated', handleDraftUpdated);
+    socket.on('message_star_updated', handleMessageStarUpdated);
+    socket.on('mention_received', handleMentionReceived);
 
     // Cleanup function
     return () => {
       socket.off('message_received', handleMessageReceived);
       socket.off('message_delivered', handleMessageDelivered);
       socket.off('message_read', handleMessageRead);
+      socket.off('message_edited', handleMessageEdited);
+      socket.off('message_updated', handleMessageUpdated);
+      socket.off('message_deleted', handleMessageDeleted);
+      socket.off('messages_expired', handleMessagesExpired);
+      socket.off('message_pinned', handleMessagePinned);
+      socket.off('message_unpinned', handleMessageUnpinned);
+      clearInterval(pruneInterval);
+      socket.off('reaction_added', handleReactionChanged);
+      socket.off('reaction_removed', handleReactionChanged);
       socket.off('user_typing', handleUserTyping);
       socket.off('user_stopped_typing', handleUserStoppedTyping);
       socket.off('friend_online', handleFriendOnline);
       socket.off('friend_offline', handleFriendOffline);
+      socket.off('conversation_created', handleConversationChanged);
+      socket.off('conversation_updated', handleConversationChanged);
+      socket.off('members_added', handleMembersAdded);
+      socket.off('member_removed', handleMemberRemoved);
+      socket.off('member_role_updated', handleMemberRoleUpdated);
+      socket.off('conversation_settings_updated', handleConversationSettingsUpdated);
+      socket.off('draft_updated', handleDraftUpdated);
+      socket.off('message_star_updated', handleMessageStarUpdated);
+      socket.off('mention_received', handleMentionReceived);
       
       // Clear all typing timeouts
       Object.values(typingTimeouts.current).forEach(clearTimeout);
       typingTimeouts.current = {};
     };
-  }, [socket, isConnected, user, addMessage, updateMessage, options]);
+  }, [
+    socket,
+    isConnected,
+    user,
+    addMessage,
+    updateMessage,
+    applyMessageDeletion,
+    removeExpiredMessages,
+    pruneExpiredMessages,
+    applyMessagePinned,
+    applyMessageUnpinned,
+    syncChanges,
+    upsertConversation,
+    removeConversation,
+    applyConversationSettings,
+    applyDraft,
+    applyStarUpdate,
+    removeStarred,
+    applyMentionReceived,
+    addMembers,
+    removeMember,
+    updateMember,
+    options,
+  ]);
 
   // Conversation management
   const joinConversation = (conversationId: string) => {
@@ -157,6 +341,7 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
   };
 
   // Messaging functions
+  // Resolves with the stored message; retries reuse the clientMessageId so the server never stores a duplicate
   const sendMessage = (conversationId: string, data: {
     content?: string;
     messageType: 'text' | 'image' | 'pdf' | 'txt' | 'other_file';
@@ -164,24 +349,118 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
     fileName?: string;
     fileSize?: number;
     fileMimeType?: string;
-  }) => {
-    if (socket) {
-      socket.emit('send_message', {
-        conversationId,
-        ...data
+    replyToId?: string;
+    clientMessageId?: string;
+  }): Promise<Message> => {
+    const payload = {
+      conversationId,
+      ...data,
+      clientMessageId: data.clientMessageId || crypto.randomUUID(),
+    };
+
+    return new Promise((resolve, reject) => {
+      const attempt = (retriesLeft: number) => {
+        if (!socket) {
+          reject(new Error('Socket not connected'));
+          return;
+        }
+
+        socket.timeout(SEND_ACK_TIMEOUT_MS).emit('send_message', payload, (err: Error | null, response: SocketAck<Message>) => {
+          if (err) {
+            if (retriesLeft > 0) {
+              attempt(retriesLeft - 1);
+            } else {
+              reject(err);
+            }
+            return;
+          }
+
+          if (!response.success) {
+            reject(new Error(response.error.message));
+            return;
+          }
+
+          addMessage(conversationId, response.data);
+          resolve(response.data);
+        });
+      };
+
+      attempt(SEND_MAX_RETRIES);
+    });
+  };
+
+  const editMessage = (messageId: string, content: string): Promise<Message> => {
+    return new Promise((resolve, reject) => {
+      if (!socket) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+
+      socket.emit('edit_message', { messageId, content }, (response: SocketAck<Message>) => {
+        if (response.success) {
+          updateMessage(response.data.conversationId, response.data.id, response.data);
+          resolve(response.data);
+        } else {
+          reject(new Error(response.error.message));
+        }
       });
+    });
+  };
+
+  const deleteMessage = (messageId: string, scope: DeleteMessageScope = 'me'): Promise<MessageDeletedEvent> => {
+    return new Promise((resolve, reject) => {
+      if (!socket) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+
+      socket.emit('delete_message', { messageId, scope }, (response: SocketAck<MessageDeletedEvent>) => {
+        if (response.success) {
+          applyMessageDeletion(response.data);
+          resolve(response.data);
+        } else {
+          reject(new Error(response.error.message));
+        }
+      });
+    });
+  };
+
+  // Pins are also broadcast to the conversation room as message_pinned/message_unpinned
+  const pinMessage = (messageId: string): Promise<PinnedMessage> => {
+    return new Promise((resolve, reject) => {
+      if (!socket) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+
+      socket.emit('pin_message', messageId, (response: SocketAck<PinnedMessage>) => {
+        if (response.success) {
+          applyMessagePinned(response.data);
+          resolve(response.data);
+        } else {
+          reject(new Error(response.error.message));
+        }
+      });
+    });
+  };
+
+  const unpinMessage = (messageId: string) => {
+    if (socket) {
+      socket.emit('unpin_message', messageId);
     }
   };
 
   const markMessageAsRead = (messageId: string) => {
     if (socket) {
       socket.emit('mark_read', messageId);
+      markMentionsRead([messageId]);
     }
   };
 
   const markConversationAsRead = (conversationId: string) => {
     if (socket) {
       socket.emit('mark_conversation_read', conversationId);
+      markConversationMentionsRead(conversationId);
     }
   };
 
@@ -198,14 +477,30 @@ export const useSocketEvents = (options: UseSocketOptions = {}) => {
     }
   };
 
+  // Drafts; pass this as useTyping's onDraftChange so saves are debounced
+  const updateDraft = (conversationId: string, content: string) => {
+    applyDraft({ conversationId, content, updatedAt: new Date() });
+
+    if (socket) {
+      socket.emit('update_draft', { conversationId, content });
+    } else {
+      apiClient.updateDraft(conversationId, content).catch(() => undefined);
+    }
+  };
+
   return {
     isConnected,
     joinConversation,
     leaveConversation,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    pinMessage,
+    unpinMessage,
     markMessageAsRead,
     markConversationAsRead,
     startTyping,
     stopTyping,
+    updateDraft,
   };
 };
@@ -1,19 +1,48 @@
 import { useState, useRef, useCallback } from 'react';
 import { debounce } from '@/lib/utils';
+import { PRESENCE } from '@toff/shared';
 
 interface UseTypingOptions {
   onStartTyping: () => void;
   onStopTyping: () => void;
+  onDraftChange?: (content: string) => void; // Receives the input once typing pauses
   delay?: number; // Delay before stopping typing (default: 1000ms)
+  draftDelay?: number; // Delay before saving the draft
 }
 
 export const useTyping = ({ 
   onStartTyping, 
   onStopTyping, 
-  delay = 1000 
+  onDraftChange,
+  delay = 1000,
+  draftDelay = PRESENCE.DRAFT_SAVE_DELAY_MS,
 }: UseTypingOptions) => {
   const [isTyping, setIsTyping] = useState(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const draftTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingDraftRef = useRef<string | null>(null);
+
+  // Save the latest input now instead of waiting for the pause
+  const flushDraft = useCallback(() => {
+    if (draftTimeoutRef.current) {
+      clearTimeout(draftTimeoutRef.current);
+      draftTimeoutRef.current = null;
+    }
+
+    if (pendingDraftRef.current !== null) {
+      onDraftChange?.(pendingDraftRef.current);
+      pendingDraftRef.current = null;
+    }
+  }, [onDraftChange]);
+
+  // Drop an unsaved draft, e.g. once the message is sent (the server clears the stored one)
+  const discardDraft = useCallback(() => {
+    if (draftTimeoutRef.current) {
+      clearTimeout(draftTimeoutRef.current);
+      draftTimeoutRef.current = null;
+    }
+    pendingDraftRef.current = null;
+  }, []);
 
   // Debounced function to stop typing
   const debouncedStopTyping = useCallback(
@@ -24,7 +53,8 @@ export const useTyping = ({
     [onStopTyping, delay]
   );
 
-  const startTyping = useCallback(() => {
+  // Pass the current input to keep the draft in sync
+  const startTyping = useCallback((content?: string) => {
     if (!isTyping) {
       setIsTyping(true);
       onStartTyping();
@@ -32,7 +62,15 @@ export const useTyping = ({
     
     // Reset the stop typing timer
     debouncedStopTyping();
-  }, [isTyping, onStartTyping, debouncedStopTyping]);
+
+    if (onDraftChange && content !== undefined) {
+      pendingDraftRef.current = content;
+      if (draftTimeoutRef.current) {
+        clearTimeout(draftTimeoutRef.current);
+      }
+      draftTimeoutRef.current = setTimeout(flushDraft, draftDelay);
+    }
+  }, [isTyping, onStartTyping, debouncedStopTyping, onDraftChange, flushDraft, draftDelay]);
 
   const stopTyping = useCallback(() => {
     if (isTyping) {
@@ -47,16 +85,19 @@ export const useTyping = ({
     }
   }, [isTyping, onStopTyping]);
 
-  // Force stop typing (useful for cleanup)
+  // Force stop typing (useful for cleanup); a pending draft is saved rather than lost
   const forceStopTyping = useCallback(() => {
     debouncedStopTyping.cancel?.();
     stopTyping();
-  }, [debouncedStopTyping, stopTyping]);
+    flushDraft();
+  }, [debouncedStopTyping, stopTyping, flushDraft]);
 
   return {
     isTyping,
     startTyping,
     stopTyping,
     forceStopTyping,
+    flushDraft,
+    discardDraft,
   };
 };
@@ -4,7 +4,27 @@ import type {
   RegisterRequest, 
   AuthResponse, 
   RefreshTokenRequest,
-  ApiResponse 
+  ApiResponse,
+  CreateGroupRequest,
+  UpdateGroupRequest,
+  UpdateMemberRoleRequest,
+  DeleteMessageScope,
+  MessageSearchRequest,
+  SyncResponse,
+  PrivacySettings,
+  UpdatePrivacyRequest,
+  UpdateProfileRequest,
+  UserPresence,
+  ConversationSettings,
+  UpdateConversationSettingsRequest,
+  ConversationDraft,
+  DisappearingTimer,
+  PinnedMessage,
+  ScheduledMessage,
+  CreateScheduledMessageRequest,
+  ForwardMessagesRequest,
+  MessageStarUpdatedEvent,
+  UpdateScheduledMessageRequest
 } from '@toff/shared';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
@@ -154,11 +174,16 @@ class ApiClient {
     return response.data.data;
   }
 
-  async updateProfile(data: { displayName?: string; avatarUrl?: string }) {
+  async updateProfile(data: UpdateProfileRequest) {
     const response = await this.client.put('/api/auth/profile', data);
     return response.data.data;
   }
 
+  async updatePrivacy(data: UpdatePrivacyRequest): Promise<PrivacySettings> {
+    const response = await this.client.put('/api/auth/privacy', data);
+    return response.data.data;
+  }
+
   // Friends methods
   async getFriends() {
     const response = await this.client.get('/api/friends');
@@ -188,6 +213,11 @@ class ApiClient {
     return response.data.data;
   }
 
+  async getFriendsPresence(): Promise<UserPresence[]> {
+    const response = await this.client.get('/api/users/presence');
+    return response.data.data;
+  }
+
   async generateInviteCode() {
     const response = await this.client.post('/api/users/invite-code');
     return response.data.data;
@@ -209,9 +239,82 @@ class ApiClient {
     return response.data.data;
   }
 
-  async getMessages(conversationId: string, page = 1, limit = 50) {
+  // Group conversation methods
+  async createGroup(data: CreateGroupRequest) {
+    const response = await this.client.post('/api/conversations/groups', data);
+    return response.data.data;
+  }
+
+  async updateGroup(conversationId: string, data: UpdateGroupRequest) {
+    const response = await this.client.put(`/api/conversations/${conversationId}`, data);
+    return response.data.data;
+  }
+
+  async addGroupMembers(conversationId: string, userIds: string[]) {
+    const response = await this.client.post(`/api/conversations/${conversationId}/members`, { userIds });
+    return response.data.data;
+  }
+
+  async removeGroupMember(conversationId: string, userId: string) {
+    const response = await this.client.delete(`/api/conversations/${conversationId}/members/${userId}`);
+    return response.data;
+  }
+
+  async updateMemberRole(conversationId: string, userId: string, role: UpdateMemberRoleRequest['role']) {
+    const response = await this.client.put(`/api/conversations/${conversationId}/members/${userId}/role`, { role });
+    return response.data.data;
+  }
+
+  // Per-user conversation settings
+  async updateConversationSettings(conversationId: string, data: UpdateConversationSettingsRequest): Promise<ConversationSettings> {
+    const response = await this.client.put(`/api/conversations/${conversationId}/settings`, data);
+    return response.data.data;
+  }
+
+  async reorderPinnedConversations(conversationIds: string[]): Promise<ConversationSettings[]> {
+    const response = await this.client.put('/api/conversations/pins', { conversationIds });
+    return response.data.data;
+  }
+
+  async setDisappearingTimer(conversationId: string, timer: DisappearingTimer) {
+    const response = await this.client.put(`/api/conversations/${conversationId}/disappearing`, { timer });
+    return response.data.data;
+  }
+
+  async updateDraft(conversationId: string, content: string): Promise<ConversationDraft> {
+    const response = await this.client.put(`/api/conversations/${conversationId}/draft`, { content });
+    return response.data.data;
+  }
+
+  async getPinnedMessages(conversationId: string): Promise<PinnedMessage[]> {
+    const response = await this.client.get(`/api/conversations/${conversationId}/pins`);
+    return response.data.data;
+  }
+
+  // Scheduled message methods
+  async getScheduledMessages(conversationId: string): Promise<ScheduledMessage[]> {
+    const response = await this.client.get(`/api/conversations/${conversationId}/scheduled`);
+    return response.data.data;
+  }
+
+  async scheduleMessage(conversationId: string, data: CreateScheduledMessageRequest): Promise<ScheduledMessage> {
+    const response = await this.client.post(`/api/conversations/${conversationId}/scheduled`, data);
+    return response.data.data;
+  }
+
+  async updateScheduledMessage(scheduledId: string, data: UpdateScheduledMessageRequest): Promise<ScheduledMessage> {
+    const response = await this.client.put(`/api/conversations/scheduled/${scheduledId}`, data);
+    return response.data.data;
+  }
+
+  async cancelScheduledMessage(scheduledId: string) {
+    const response = await this.client.delete(`/api/conversations/scheduled/${scheduledId}`);
+    return response.data;
+  }
+
+  async getMessages(conversationId: string, cursor: { before?: string; after?: string; limit?: number } = {}) {
     const response = await this.client.get(`/api/conversations/${conversationId}/messages`, {
-      params: { page, limit },
+      params: cursor,
     });
     return response.data.data;
   }
@@ -223,6 +326,8 @@ class ApiClient {
     fileName?: string;
     fileSize?: number;
     fileMimeType?: string;
+    replyToId?: string;
+    clientMessageId?: string;
   }) {
     const response = await this.client.post(
       `/api/conversations/${conversationId}/messages`,
@@ -231,6 +336,81 @@ class ApiClient {
     return response.data.data;
   }
 
+  async forwardMessages(data: ForwardMessagesRequest) {
+    const response = await this.client.post('/api/conversations/messages/forward', data);
+    return response.data.data;
+  }
+
+  async editMessage(messageId: string, content: string) {
+    const response = await this.client.put(`/api/conversations/messages/${messageId}`, { content });
+    return response.data.data;
+  }
+
+  async deleteMessage(messageId: string, scope: DeleteMessageScope = 'me') {
+    const response = await this.client.delete(`/api/conversations/messages/${messageId}`, {
+      params: { scope },
+    });
+    return response.data;
+  }
+
+  async toggleReaction(messageId: string, emoji: string) {
+    const response = await this.client.post(`/api/conversations/messages/${messageId}/reactions`, { emoji });
+    return response.data.data;
+  }
+
+  async removeReaction(messageId: string, emoji: string) {
+    const response = await this.client.delete(
+      `/api/conversations/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`
+    );
+    return response.data.data;
+  }
+
+  async getMessageRevisions(messageId: string) {
+    const response = await this.client.get(`/api/conversations/messages/${messageId}/revisions`);
+    return response.data.data;
+  }
+
+  async searchMessages(params: MessageSearchRequest) {
+    const response = await this.client.get('/api/messages/search', {
+      params,
+    });
+    return response.data.data;
+  }
+
+  // Starred messages
+  async getStarredMessages(params: { before?: string; limit?: number } = {}) {
+    const response = await this.client.get('/api/messages/starred', {
+      params,
+    });
+    return response.data.data;
+  }
+
+  async starMessage(messageId: string): Promise<MessageStarUpdatedEvent> {
+    const response = await this.client.put(`/api/messages/${messageId}/star`);
+    return response.data.data;
+  }
+
+  async unstarMessage(messageId: string): Promise<MessageStarUpdatedEvent> {
+    const response = await this.client.delete(`/api/messages/${messageId}/star`);
+    return response.data.data;
+  }
+
+  // Mentions
+  async getMentions(params: { before?: string; unread?: boolean; limit?: number } = {}) {
+    const response = await this.client.get('/api/mentions', {
+      params,
+    });
+    return response.data.data;
+  }
+
+  // Sync
+  async sync(since?: string): Promise<SyncResponse> {
+    const response = await this.client.get('/api/sync', {
+      params: { since },
+    });
+    return response.data.data;
+  }
+
   async markMessageAsRead(messageId: string) {
     const response = await this.client.put(`/api/messages/${messageId}/read`);
     return response.data;
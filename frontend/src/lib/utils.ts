@@ -24,7 +24,10 @@ export function formatTime(date: Date | string): string {
   }
 }
 
-export function formatLastSeen(date: Date | string): string {
+export function formatLastSeen(date: Date | string | null): string {
+  // Hidden by the user's privacy settings
+  if (!date) return '';
+
   const lastSeen = new Date(date);
   const now = new Date();
   const diffInMs = now.getTime() - lastSeen.getTime();
@@ -1,22 +1,100 @@
 import { create } from 'zustand';
-import type { Conversation, Message } from '@toff/shared';
+import type {
+  Conversation,
+  ConversationDraft,
+  ConversationMember,
+  ConversationSettings,
+  CreateGroupRequest,
+  Message,
+  MessageDeletedEvent,
+  MessagesExpiredEvent,
+  MessageUnpinnedEvent,
+  PinnedMessage,
+  ReactionSummary,
+  UpdateConversationSettingsRequest,
+} from '@toff/shared';
 import { apiClient } from '@/lib/api';
 
+// Merge per-emoji reaction updates into a message's summary, dropping emojis nobody uses anymore
+const mergeReactions = (current: ReactionSummary[] = [], updates: ReactionSummary[]) => {
+  const merged = current.map(reaction => updates.find(update => update.emoji === reaction.emoji) || reaction);
+  const added = updates.filter(update => !current.some(reaction => reaction.emoji === update.emoji));
+  return [...merged, ...added].filter(reaction => reaction.count > 0);
+};
+
+// Insert messages into a loaded list, skipping ones already present and keeping chronological order
+const mergeMessages = (current: Message[], incoming: Message[]) => {
+  const added = incoming.filter(message => !current.some(msg => msg.id === message.id));
+  return [...current, ...added].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+};
+
+// Disappearing messages past their expiry; the server deletes them shortly after
+const isExpired = (message: Message, now = Date.now()) =>
+  !!message.expiresAt && new Date(message.expiresAt).getTime() <= now;
+
+// Pinned conversations first in their manual order, then the most recently active
+const compareConversations = (a: Conversation, b: Conversation) => {
+  const aPin = a.settings?.pinOrder ?? null;
+  const bPin = b.settings?.pinOrder ?? null;
+
+  if (aPin !== null || bPin !== null) {
+    if (aPin === null) return 1;
+    if (bPin === null) return -1;
+    return aPin - bPin;
+  }
+
+  return new Date(b.lastMessageAt || 0).getTime() - new Date(a.lastMessageAt || 0).getTime();
+};
+
+// Split conversations into the sections shown in the chat list
+export const selectConversationSections = (state: { conversations: Conversation[] }) => {
+  const sorted = [...state.conversations].sort(compareConversations);
+  return {
+    pinned: sorted.filter(conv => conv.settings?.pinned),
+    chats: sorted.filter(conv => !conv.settings?.pinned && !conv.settings?.archived),
+    archived: sorted.filter(conv => conv.settings?.archived),
+  };
+};
+
 interface ConversationsState {
   conversations: Conversation[];
   activeConversationId: string | null;
   messages: Record<string, Message[]>;
+  hasMoreMessages: Record<string, boolean>;
+  pinnedMessages: Record<string, PinnedMessage[]>;
+  lastSyncedAt: string | null;
   isLoading: boolean;
   error: string | null;
 
   // Actions
   loadConversations: () => Promise<void>;
-  loadMessages: (conversationId: string, page?: number) => Promise<void>;
+  refreshConversations: () => Promise<void>;
+  loadMessages: (conversationId: string, before?: string) => Promise<void>;
+  syncChanges: () => Promise<void>;
+  loadPinnedMessages: (conversationId: string) => Promise<void>;
+  applyMessagePinned: (pin: PinnedMessage) => void;
+  applyMessageUnpinned: (event: MessageUnpinnedEvent) => void;
   setActiveConversation: (conversationId: string | null) => void;
   addMessage: (conversationId: string, message: Message) => void;
   updateMessage: (conversationId: string, messageId: string, updates: Partial<Message>) => void;
+  removeMessage: (conversationId: string, messageId: string) => void;
+  applyMessageDeletion: (event: MessageDeletedEvent) => void;
+  removeExpiredMessages: (event: MessagesExpiredEvent) => void;
+  pruneExpiredMessages: () => void;
   markMessagesAsRead: (conversationId: string, messageIds: string[]) => void;
   createConversation: (participantId: string) => Promise<Conversation>;
+  createGroup: (data: CreateGroupRequest) => Promise<Conversation>;
+  upsertConversation: (conversation: Conversation) => void;
+  removeConversation: (conversationId: string) => void;
+  applyConversationSettings: (settings: ConversationSettings) => void;
+  updateConversationSettings: (conversationId: string, data: UpdateConversationSettingsRequest) => Promise<void>;
+  reorderPinned: (conversationIds: string[]) => Promise<void>;
+  applyDraft: (draft: ConversationDraft) => void;
+  addMembers: (conversationId: string, members: ConversationMember[]) => void;
+  removeMember: (conversationId: string, userId: string) => void;
+  updateMember: (conversationId: string, member: ConversationMember) => void;
   clearError: () => void;
 }
 
@@ -24,6 +102,9 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
   conversations: [],
   activeConversationId: null,
   messages: {},
+  hasMoreMessages: {},
+  pinnedMessages: {},
+  lastSyncedAt: null,
   isLoading: false,
   error: null,
 
@@ -40,18 +121,35 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     }
   },
 
-  loadMessages: async (conversationId: string, page = 1) => {
+  // Reload last messages and unread counts without toggling the loading state
+  refreshConversations: async () => {
+    try {
+      const conversations = await apiClient.getConversations();
+      set({ conversations });
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.error || 'Failed to load conversations'
+      });
+    }
+  },
+
+  // Load the latest messages, or older ones when given the id of the oldest loaded message
+  loadMessages: async (conversationId: string, before?: string) => {
     try {
-      const response = await apiClient.getMessages(conversationId, page);
-      const { messages: newMessages } = response;
+      const response = await apiClient.getMessages(conversationId, { before });
+      const { messages: newMessages, pagination } = response;
       
       set(state => ({
         messages: {
           ...state.messages,
-          [conversationId]: page === 1 
-            ? newMessages 
-            : [...(state.messages[conversationId] || []), ...newMessages]
-        }
+          [conversationId]: before
+            ? mergeMessages(state.messages[conversationId] || [], newMessages)
+            : newMessages
+        },
+        hasMoreMessages: {
+          ...state.hasMoreMessages,
+          [conversationId]: pagination.hasMore,
+        },
       }));
     } catch (error: any) {
       set({ 
@@ -60,17 +158,132 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     }
   },
 
+  // Apply everything that changed since the last checkpoint, e.g. after reconnecting
+  syncChanges: async () => {
+    try {
+      let since = get().lastSyncedAt;
+      let hasMore = true;
+
+      while (hasMore) {
+        const changes = await apiClient.sync(since || undefined);
+        const { messages } = get();
+
+        const createdByConversation: Record<string, Message[]> = {};
+        changes.created.forEach(message => {
+          (createdByConversation[message.conversationId] ||= []).push(message);
+        });
+
+        Object.entries(createdByConversation).forEach(([conversationId, created]) => {
+          if (messages[conversationId]) {
+            set(state => ({
+              messages: {
+                ...state.messages,
+                [conversationId]: mergeMessages(state.messages[conversationId] || [], created),
+              },
+            }));
+          }
+        });
+
+        changes.edited.forEach(message => {
+          get().updateMessage(message.conversationId, message.id, message);
+        });
+
+        changes.deleted.forEach(event => get().applyMessageDeletion(event));
+        changes.expired.forEach(event => get().removeExpiredMessages(event));
+
+        changes.readReceipts.forEach(receipt => {
+          const message = (get().messages[receipt.conversationId] || []).find(msg => msg.id === receipt.messageId);
+          if (message && message.senderId !== receipt.userId) {
+            get().updateMessage(receipt.conversationId, receipt.messageId, {
+              isRead: true,
+              readAt: receipt.readAt,
+            });
+          }
+        });
+
+        changes.deliveries.forEach(delivery => {
+          const message = (get().messages[delivery.conversationId] || []).find(msg => msg.id === delivery.messageId);
+          if (message && !message.deliveredAt) {
+            get().updateMessage(delivery.conversationId, delivery.messageId, {
+              deliveredAt: delivery.deliveredAt,
+            });
+          }
+        });
+
+        // Last messages and unread counts may have moved; refresh them quietly
+        if (since && (changes.created.length > 0 || changes.readReceipts.length > 0)) {
+          await get().refreshConversations();
+        }
+
+        since = changes.checkpoint;
+        hasMore = changes.hasMore;
+        set({ lastSyncedAt: since });
+      }
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.error || 'Failed to sync messages'
+      });
+    }
+  },
+
+  loadPinnedMessages: async (conversationId: string) => {
+    try {
+      const pins = await apiClient.getPinnedMessages(conversationId);
+      set(state => ({
+        pinnedMessages: { ...state.pinnedMessages, [conversationId]: pins },
+      }));
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.error || 'Failed to load pinned messages'
+      });
+    }
+  },
+
+  // Newest pin first, matching the server's order
+  applyMessagePinned: (pin: PinnedMessage) => {
+    set(state => ({
+      pinnedMessages: {
+        ...state.pinnedMessages,
+        [pin.conversationId]: [
+          pin,
+          ...(state.pinnedMessages[pin.conversationId] || []).filter(p => p.messageId !== pin.messageId),
+        ],
+      },
+    }));
+  },
+
+  applyMessageUnpinned: (event: MessageUnpinnedEvent) => {
+    set(state => ({
+      pinnedMessages: {
+        ...state.pinnedMessages,
+        [event.conversationId]: (state.pinnedMessages[event.conversationId] || []).filter(
+          pin => pin.messageId !== event.messageId
+        ),
+      },
+    }));
+  },
+
   setActiveConversation: (conversationId: string | null) => {
     set({ activeConversationId: conversationId });
   },
 
+  // Add a message, replacing any copy already present (e.g. from a send ack and the broadcast)
   addMessage: (conversationId: string, message: Message) => {
-    set(state => ({
-      messages: {
-        ...state.messages,
-        [conversationId]: [...(state.messages[conversationId] || []), message]
-      }
-    }));
+    const isSameMessage = (msg: Message) =>
+      msg.id === message.id ||
+      (!!message.clientMessageId && msg.senderId === message.senderId && msg.clientMessageId === message.clientMessageId);
+
+    set(state => {
+      const current = state.messages[conversationId] || [];
+      return {
+        messages: {
+          ...state.messages,
+          [conversationId]: current.some(isSameMessage)
+            ? current.map(msg => isSameMessage(msg) ? message : msg)
+            : [...current, message]
+        }
+      };
+    });
 
     // Update conversation's last message
     set(state => ({
@@ -82,17 +295,114 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     }));
   },
 
+  // Pinned copies are kept in step so edits and reactions show in the pinned bar too
   updateMessage: (conversationId: string, messageId: string, updates: Partial<Message>) => {
     set(state => ({
+      pinnedMessages: state.pinnedMessages[conversationId]?.some(pin => pin.messageId === messageId)
+        ? {
+            ...state.pinnedMessages,
+            [conversationId]: state.pinnedMessages[conversationId].map(pin =>
+              pin.messageId === messageId
+                ? {
+                    ...pin,
+                    message: {
+                      ...pin.message,
+                      ...updates,
+                      ...(updates.reactions && { reactions: mergeReactions(pin.message.reactions, updates.reactions) }),
+                    },
+                  }
+                : pin
+            ),
+          }
+        : state.pinnedMessages,
       messages: {
         ...state.messages,
         [conversationId]: (state.messages[conversationId] || []).map(msg =>
-          msg.id === messageId ? { ...msg, ...updates } : msg
+          msg.id === messageId
+            ? {
+                ...msg,
+                ...updates,
+                ...(updates.reactions && { reactions: mergeReactions(msg.reactions, updates.reactions) }),
+              }
+            : msg
         )
       }
     }));
   },
 
+  removeMessage: (conversationId: string, messageId: string) => {
+    set(state => ({
+      messages: {
+        ...state.messages,
+        [conversationId]: (state.messages[conversationId] || []).filter(msg => msg.id !== messageId)
+      }
+    }));
+  },
+
+  applyMessageDeletion: (event: MessageDeletedEvent) => {
+    if (event.scope === 'me') {
+      get().removeMessage(event.conversationId, event.messageId);
+      return;
+    }
+
+    // Deleted for everyone: keep a tombstone in place of the original
+    get().updateMessage(event.conversationId, event.messageId, {
+      content: undefined,
+      fileUrl: undefined,
+      fileName: undefined,
+      fileSize: undefined,
+      fileMimeType: undefined,
+      isDeleted: true,
+      deletedAt: event.deletedAt,
+    });
+  },
+
+  // Expired messages are gone for everyone, so no tombstone is kept
+  removeExpiredMessages: (event: MessagesExpiredEvent) => {
+    set(state => ({
+      messages: {
+        ...state.messages,
+        [event.conversationId]: (state.messages[event.conversationId] || []).filter(
+          msg => !event.messageIds.includes(msg.id)
+        )
+      },
+      pinnedMessages: {
+        ...state.pinnedMessages,
+        [event.conversationId]: (state.pinnedMessages[event.conversationId] || []).filter(
+          pin => !event.messageIds.includes(pin.messageId)
+        ),
+      },
+      conversations: state.conversations.map(conv =>
+        conv.id === event.conversationId && conv.lastMessage && event.messageIds.includes(conv.lastMessage.id)
+          ? { ...conv, lastMessage: undefined }
+          : conv
+      )
+    }));
+  },
+
+  // Drop expired messages without waiting for the server's cleanup
+  pruneExpiredMessages: () => {
+    const now = Date.now();
+    const { messages, conversations } = get();
+    const hasExpired = Object.values(messages).some(msgs => msgs.some(msg => isExpired(msg, now))) ||
+      conversations.some(conv => conv.lastMessage && isExpired(conv.lastMessage, now));
+    if (!hasExpired) return;
+
+    set(state => ({
+      messages: Object.fromEntries(
+        Object.entries(state.messages).map(([conversationId, msgs]) => [
+          conversationId,
+          msgs.filter(msg => !isExpired(msg, now)),
+        ])
+      ),
+      conversations: state.conversations.map(conv =>
+        conv.lastMessage && isExpired(conv.lastMessage, now)
+          ? { ...conv, lastMessage: undefined }
+          : conv
+      )
+    }));
+  },
+
   markMessagesAsRead: (conversationId: string, messageIds: string[]) => {
     const readAt = new Date();
     set(state => ({
@@ -133,6 +443,121 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     }
   },
 
+  createGroup: async (data: CreateGroupRequest) => {
+    try {
+      const conversation = await apiClient.createGroup(data);
+      get().upsertConversation(conversation);
+      return conversation;
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.error || 'Failed to create group'
+      });
+      throw error;
+    }
+  },
+
+  upsertConversation: (conversation: Conversation) => {
+    set(state => ({
+      conversations: state.conversations.some(conv => conv.id === conversation.id)
+        ? state.conversations.map(conv =>
+            conv.id === conversation.id ? { ...conv, ...conversation } : conv
+          )
+        : [conversation, ...state.conversations]
+    }));
+  },
+
+  removeConversation: (conversationId: string) => {
+    set(state => {
+      const { [conversationId]: _removed, ...messages } = state.messages;
+      return {
+        conversations: state.conversations.filter(conv => conv.id !== conversationId),
+        messages,
+        activeConversationId: state.activeConversationId === conversationId ? null : state.activeConversationId,
+      };
+    });
+  },
+
+  // Settings changes come from this device or, via the socket, from the user's other devices
+  applyConversationSettings: (settings: ConversationSettings) => {
+    set(state => ({
+      conversations: state.conversations.map(conv =>
+        conv.id === settings.conversationId ? { ...conv, settings } : conv
+      )
+    }));
+  },
+
+  updateConversationSettings: async (conversationId: string, data: UpdateConversationSettingsRequest) => {
+    try {
+      const settings = await apiClient.updateConversationSettings(conversationId, data);
+      get().applyConversationSettings(settings);
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.error || 'Failed to update conversation settings'
+      });
+      throw error;
+    }
+  },
+
+  reorderPinned: async (conversationIds: string[]) => {
+    try {
+      const settings = await apiClient.reorderPinnedConversations(conversationIds);
+      settings.forEach(setting => get().applyConversationSettings(setting));
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.error || 'Failed to reorder pinned conversations'
+      });
+      throw error;
+    }
+  },
+
+  // Cleared drafts arrive with empty content
+  applyDraft: (draft: ConversationDraft) => {
+    set(state => ({
+      conversations: state.conversations.map(conv =>
+        conv.id === draft.conversationId ? { ...conv, draft: draft.content ? draft : null } : conv
+      )
+    }));
+  },
+
+  addMembers: (conversationId: string, members: ConversationMember[]) => {
+    set(state => ({
+      conversations: state.conversations.map(conv =>
+        conv.id === conversationId
+          ? {
+              ...conv,
+              members: [
+                ...(conv.members || []).filter(m => !members.some(added => added.userId === m.userId)),
+                ...members,
+              ],
+            }
+          : conv
+      )
+    }));
+  },
+
+  removeMember: (conversationId: string, userId: string) => {
+    set(state => ({
+      conversations: state.conversations.map(conv =>
+        conv.id === conversationId
+          ? { ...conv, members: (conv.members || []).filter(m => m.userId !== userId) }
+          : conv
+      )
+    }));
+  },
+
+  updateMember: (conversationId: string, member: ConversationMember) => {
+    set(state => ({
+      conversations: state.conversations.map(conv =>
+        conv.id === conversationId
+          ? {
+              ...conv,
+              members: (conv.members || []).map(m => m.userId === member.userId ? { ...m, ...member } : m),
+            }
+          : conv
+      )
+    }));
+  },
+
   clearError: () => {
     set({ error: null });
   },
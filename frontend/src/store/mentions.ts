@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import type { MentionInboxItem, MentionReceivedEvent } from '@toff/shared';
+import { apiClient } from '@/lib/api';
+import { useConversationsStore } from '@/store/conversations';
+
+interface MentionsState {
+  mentions: MentionInboxItem[];
+  unreadCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadMentions: (more?: boolean) => Promise<void>;
+  applyMentionReceived: (event: MentionReceivedEvent) => void;
+  markMentionsRead: (messageIds: string[]) => void;
+  markConversationMentionsRead: (conversationId: string) => void;
+  clearError: () => void;
+}
+
+export const useMentionsStore = create<MentionsState>((set, get) => ({
+  mentions: [],
+  unreadCount: 0,
+  hasMore: false,
+  isLoading: false,
+  error: null,
+
+  // Load the newest mentions, or the next page after the ones already loaded
+  loadMentions: async (more = false) => {
+    try {
+      set({ isLoading: true, error: null });
+      const current = more ? get().mentions : [];
+      const { results, unreadCount, pagination } = await apiClient.getMentions({
+        before: current[current.length - 1]?.message.id,
+      });
+      set({
+        mentions: [
+          ...current,
+          ...results.filter((item: MentionInboxItem) => !current.some(m => m.message.id === item.message.id)),
+        ],
+        unreadCount,
+        hasMore: pagination.hasMore,
+        isLoading: false,
+      });
+    } catch (error: any) {
+      set({
+        error: error.response?.data?.error || 'Failed to load mentions',
+        isLoading: false,
+      });
+    }
+  },
+
+  // Mentions arrive even for muted conversations; an edit can mention someone in an older message.
+  // Without the conversation loaded only the count changes and the next load fills in the entry.
+  applyMentionReceived: (event: MentionReceivedEvent) => {
+    if (get().mentions.some(m => m.message.id === event.message.id)) return;
+
+    const conversation = useConversationsStore.getState().conversations.find(c => c.id === event.conversationId);
+
+    set(state => ({
+      mentions: conversation
+        ? [
+            {
+              message: event.message,
+              conversation: { id: conversation.id, type: conversation.type, name: conversation.name },
+              isRead: false,
+            },
+            ...state.mentions,
+          ].sort((a, b) => new Date(b.message.createdAt).getTime() - new Date(a.message.createdAt).getTime())
+        : state.mentions,
+      unreadCount: state.unreadCount + 1,
+    }));
+  },
+
+  // Reading the message reads the mention
+  markMentionsRead: (messageIds: string[]) => {
+    set(state => {
+      const newlyRead = state.mentions.filter(m => !m.isRead && messageIds.includes(m.message.id)).length;
+      return {
+        mentions: state.mentions.map(m => (messageIds.includes(m.message.id) ? { ...m, isRead: true } : m)),
+        unreadCount: Math.max(0, state.unreadCount - newlyRead),
+      };
+    });
+  },
+
+  markConversationMentionsRead: (conversationId: string) => {
+    get().markMentionsRead(
+      get().mentions.filter(m => m.conversation.id === conversationId).map(m => m.message.id)
+    );
+  },
+
+  clearError: () => set({ error: null }),
+}));
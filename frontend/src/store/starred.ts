@@ -0,0 +1,116 @@
+import { create } from 'zustand';
+import type { Message, MessageStarUpdatedEvent, StarredMessage } from '@toff/shared';
+import { apiClient } from '@/lib/api';
+import { useConversationsStore } from '@/store/conversations';
+
+interface StarredMessagesState {
+  starred: StarredMessage[];
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadStarred: (more?: boolean) => Promise<void>;
+  starMessage: (message: Message) => Promise<void>;
+  unstarMessage: (conversationId: string, messageId: string) => Promise<void>;
+  applyStarUpdate: (event: MessageStarUpdatedEvent, message?: Message) => void;
+  removeStarred: (messageIds: string[]) => void;
+  clearError: () => void;
+}
+
+export const useStarredMessagesStore = create<StarredMessagesState>((set, get) => ({
+  starred: [],
+  hasMore: false,
+  isLoading: false,
+  error: null,
+
+  // Load the newest starred messages, or the next page after the ones already loaded
+  loadStarred: async (more = false) => {
+    try {
+      set({ isLoading: true, error: null });
+      const current = more ? get().starred : [];
+      const { results, pagination } = await apiClient.getStarredMessages({
+        before: current[current.length - 1]?.message.id,
+      });
+      set({
+        starred: [
+          ...current,
+          ...results.filter((item: StarredMessage) => !current.some(s => s.message.id === item.message.id)),
+        ],
+        hasMore: pagination.hasMore,
+        isLoading: false,
+      });
+    } catch (error: any) {
+      set({
+        error: error.response?.data?.error || 'Failed to load starred messages',
+        isLoading: false,
+      });
+    }
+  },
+
+  // Works from the message alone, whether or not its conversation is loaded
+  starMessage: async (message: Message) => {
+    try {
+      const event = await apiClient.starMessage(message.id);
+      get().applyStarUpdate(event, message);
+    } catch (error: any) {
+      set({
+        error: error.response?.data?.error || 'Failed to star message'
+      });
+    }
+  },
+
+  unstarMessage: async (conversationId: string, messageId: string) => {
+    try {
+      const event = await apiClient.unstarMessage(messageId);
+      get().applyStarUpdate(event);
+    } catch (error: any) {
+      // Already unstarred elsewhere; settle on that
+      if (error.response?.status === 404) {
+        get().applyStarUpdate({ conversationId, messageId, starred: false, starredAt: null });
+        return;
+      }
+      set({
+        error: error.response?.data?.error || 'Failed to unstar message'
+      });
+    }
+  },
+
+  // Star changes from this or another device. A newly starred message joins the list
+  // when its content and conversation are known locally; otherwise the next load picks it up.
+  applyStarUpdate: (event: MessageStarUpdatedEvent, message?: Message) => {
+    const conversationsState = useConversationsStore.getState();
+    conversationsState.updateMessage(event.conversationId, event.messageId, { isStarred: event.starred });
+
+    if (!event.starred) {
+      get().removeStarred([event.messageId]);
+      return;
+    }
+
+    const starredMessage = message
+      || conversationsState.messages[event.conversationId]?.find(m => m.id === event.messageId);
+    const conversation = conversationsState.conversations.find(c => c.id === event.conversationId);
+
+    if (!starredMessage || !conversation || get().starred.some(s => s.message.id === event.messageId)) return;
+
+    set(state => ({
+      starred: [
+        {
+          message: { ...starredMessage, isStarred: true },
+          conversation: { id: conversation.id, type: conversation.type, name: conversation.name },
+          starredAt: event.starredAt!,
+        },
+        ...state.starred,
+      ],
+    }));
+  },
+
+  // Drop messages that were deleted or expired
+  removeStarred: (messageIds: string[]) => {
+    set(state => ({
+      starred: state.starred.filter(s => !messageIds.includes(s.message.id)),
+    }));
+  },
+
+  clearError: () => set({ error: null }),
+}));
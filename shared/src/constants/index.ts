@@ -6,6 +6,7 @@ export const API_ENDPOINTS = {
     LOGOUT: '/api/auth/logout',
     REFRESH: '/api/auth/refresh',
     PROFILE: '/api/auth/profile',
+    PRIVACY: '/api/auth/privacy',
   },
   FRIENDS: {
     LIST: '/api/friends',
@@ -17,15 +18,38 @@ export const API_ENDPOINTS = {
     SEARCH: '/api/users/search',
     INVITE_CODE: '/api/users/invite-code',
     REDEEM_INVITE: '/api/users/redeem-invite',
+    PRESENCE: '/api/users/presence',
   },
   CONVERSATIONS: {
     LIST: '/api/conversations',
     CREATE: '/api/conversations',
     MESSAGES: (id: string) => `/api/conversations/${id}/messages`,
+    CREATE_GROUP: '/api/conversations/groups',
+    UPDATE: (id: string) => `/api/conversations/${id}`,
+    MEMBERS: (id: string) => `/api/conversations/${id}/members`,
+    MEMBER: (id: string, userId: string) => `/api/conversations/${id}/members/${userId}`,
+    MEMBER_ROLE: (id: string, userId: string) => `/api/conversations/${id}/members/${userId}/role`,
+    SETTINGS: (id: string) => `/api/conversations/${id}/settings`,
+    PINS: '/api/conversations/pins',
+    DRAFT: (id: string) => `/api/conversations/${id}/draft`,
+    PINNED_MESSAGES: (id: string) => `/api/conversations/${id}/pins`,
+    DISAPPEARING: (id: string) => `/api/conversations/${id}/disappearing`,
+    SCHEDULED: (id: string) => `/api/conversations/${id}/scheduled`,
+    SCHEDULED_MESSAGE: (scheduledId: string) => `/api/conversations/scheduled/${scheduledId}`,
+    MESSAGE: (messageId: string) => `/api/conversations/messages/${messageId}`,
+    FORWARD: '/api/conversations/messages/forward',
+    MESSAGE_REVISIONS: (messageId: string) => `/api/conversations/messages/${messageId}/revisions`,
+    REACTIONS: (messageId: string) => `/api/conversations/messages/${messageId}/reactions`,
+    REACTION: (messageId: string, emoji: string) => `/api/conversations/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
   },
   MESSAGES: {
     READ: (id: string) => `/api/messages/${id}/read`,
+    SEARCH: '/api/messages/search',
+    STARRED: '/api/messages/starred',
+    STAR: (id: string) => `/api/messages/${id}/star`,
   },
+  MENTIONS: '/api/mentions',
+  SYNC: '/api/sync',
   UPLOAD: '/api/upload',
 } as const;
 
@@ -61,19 +85,78 @@ export const SOCKET_EVENTS = {
   TYPING_START: 'typing_start',
   TYPING_STOP: 'typing_stop',
   MARK_READ: 'mark_read',
-  USER_ONLINE: 'user_online',
-  USER_OFFLINE: 'user_offline',
+  MARK_DELIVERED: 'mark_delivered',
+  EDIT_MESSAGE: 'edit_message',
+  DELETE_MESSAGE: 'delete_message',
+  UPDATE_DRAFT: 'update_draft',
+  PIN_MESSAGE: 'pin_message',
+  UNPIN_MESSAGE: 'unpin_message',
   
   // Server to Client
   MESSAGE_RECEIVED: 'message_received',
   MESSAGE_DELIVERED: 'message_delivered',
+  MESSAGE_BACKLOG: 'message_backlog',
+  BACKLOG_COMPLETE: 'backlog_complete',
   MESSAGE_READ: 'message_read',
+  MESSAGE_EDITED: 'message_edited',
+  MESSAGE_DELETED: 'message_deleted',
+  MESSAGES_EXPIRED: 'messages_expired',
+  MESSAGE_PINNED: 'message_pinned',
+  MESSAGE_UNPINNED: 'message_unpinned',
+  REACTION_ADDED: 'reaction_added',
+  REACTION_REMOVED: 'reaction_removed',
   USER_TYPING: 'user_typing',
   USER_STOPPED_TYPING: 'user_stopped_typing',
   FRIEND_ONLINE: 'friend_online',
   FRIEND_OFFLINE: 'friend_offline',
+  FRIEND_STATUS_CHANGED: 'friend_status_changed',
   CONVERSATION_UPDATED: 'conversation_updated',
   READ_RECEIPT_UPDATED: 'read_receipt_updated',
+  CONVERSATION_CREATED: 'conversation_created',
+  MEMBERS_ADDED: 'members_added',
+  MEMBER_REMOVED: 'member_removed',
+  MEMBER_ROLE_UPDATED: 'member_role_updated',
+  CONVERSATION_SETTINGS_UPDATED: 'conversation_settings_updated',
+  DRAFT_UPDATED: 'draft_updated',
+  MESSAGE_STAR_UPDATED: 'message_star_updated',
+  MENTION_RECEIVED: 'mention_received',
+  MESSAGE_UPDATED: 'message_updated',
+} as const;
+
+// Presence Constants
+export const PRESENCE = {
+  // Typing expires this long after the last keystroke
+  TYPING_TTL_MS: 5000,
+  // Repeated keystrokes re-broadcast user_typing at most this often
+  TYPING_BROADCAST_INTERVAL_MS: 2000,
+  // friend_offline waits this long after the last connection closes, absorbing reconnects
+  OFFLINE_GRACE_MS: 10000,
+  // Connections not refreshed by their instance within this window are treated as gone
+  CONNECTION_TTL_MS: 60000,
+  // How often expired custom statuses are reset and announced
+  STATUS_EXPIRY_CHECK_INTERVAL_MS: 60000,
+  // Drafts are saved once typing pauses for this long
+  DRAFT_SAVE_DELAY_MS: 1000,
+} as const;
+
+// Disappearing Messages Constants
+export const DISAPPEARING_MESSAGES = {
+  // Lifetime of new messages in seconds for each timer option; null keeps them
+  TIMERS: {
+    off: null,
+    '1h': 60 * 60,
+    '1d': 24 * 60 * 60,
+    '7d': 7 * 24 * 60 * 60,
+  },
+  LABELS: {
+    off: 'Off',
+    '1h': '1 hour',
+    '1d': '1 day',
+    '7d': '7 days',
+  },
+  // How often the server deletes expired messages, and clients drop them from memory
+  CLEANUP_INTERVAL_MS: 60000,
+  LOCAL_PRUNE_INTERVAL_MS: 10000,
 } as const;
 
 // UI Constants
@@ -113,8 +196,60 @@ export const VALIDATION = {
     MIN_LENGTH: 1,
     MAX_LENGTH: 50,
   },
+  STATUS: {
+    VALUES: ['online', 'away', 'busy', 'invisible'],
+    MESSAGE_MAX_LENGTH: 100,
+  },
+  PRIVACY: {
+    LAST_SEEN_VISIBILITY_VALUES: ['everyone', 'friends', 'nobody'],
+  },
   MESSAGE: {
     MAX_LENGTH: 2000,
+    EDIT_WINDOW_MINUTES: 15,
+    REPLY_PREVIEW_LENGTH: 100,
+    CLIENT_ID_MAX_LENGTH: 64,
+    FORWARD_MAX_MESSAGES: 10,
+    FORWARD_MAX_CONVERSATIONS: 5,
+  },
+  RICH_TEXT: {
+    // Deeper `>` lines are kept as plain text
+    MAX_QUOTE_DEPTH: 3,
+    CODE_LANGUAGE_PATTERN: /^[a-zA-Z0-9_+#.-]{1,20}$/,
+    LINK_PROTOCOLS: ['http:', 'https:', 'mailto:'],
+    LINK_MAX_LENGTH: 2048,
+  },
+  REACTION: {
+    MAX_LENGTH: 16,
+  },
+  SYNC: {
+    MAX_CHANGES: 500,
+  },
+  SEARCH: {
+    QUERY_MAX_LENGTH: 200,
+    MAX_RESULTS: 50,
+    // Control characters wrapping matched terms in search snippets
+    HIGHLIGHT_START: '\u0002',
+    HIGHLIGHT_END: '\u0003',
+  },
+  STARRED: {
+    DEFAULT_PAGE_SIZE: 20,
+    MAX_PAGE_SIZE: 50,
+  },
+  MENTIONS: {
+    DEFAULT_PAGE_SIZE: 20,
+    MAX_PAGE_SIZE: 50,
+  },
+  GROUP: {
+    NAME_MAX_LENGTH: 50,
+    MAX_MEMBERS: 100,
+  },
+  CONVERSATION: {
+    MAX_PINNED: 5,
+    MAX_PINNED_MESSAGES: 3,
+  },
+  SCHEDULED_MESSAGE: {
+    MAX_DAYS_AHEAD: 365,
+    MAX_PENDING_PER_CONVERSATION: 50,
   },
   INVITE_CODE: {
     LENGTH: 8,
@@ -6,7 +6,11 @@ export interface User {
   displayName: string;
   avatarUrl?: string;
   isOnline: boolean;
-  lastSeen: Date;
+  // null when the user doesn't share it with the viewer
+  lastSeen: Date | null;
+  status: UserStatus;
+  statusMessage?: string | null;
+  statusExpiresAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +21,36 @@ export interface UserProfile {
   username: string;
   displayName: string;
   avatarUrl?: string;
+  status?: UserStatus;
+  statusMessage?: string | null;
+  statusExpiresAt?: Date | null;
+  lastSeenVisibility?: LastSeenVisibility;
+  readReceiptsEnabled?: boolean;
+}
+
+// Invisible users appear offline; friends never see the invisible status itself
+export type UserStatus = 'online' | 'away' | 'busy' | 'invisible';
+export type VisibleUserStatus = Exclude<UserStatus, 'invisible'>;
+
+// Who can see when a user was last active; read receipts are reciprocal, so turning
+// them off also hides everyone else's
+export type LastSeenVisibility = 'everyone' | 'friends' | 'nobody';
+
+export interface PrivacySettings {
+  lastSeenVisibility: LastSeenVisibility;
+  readReceiptsEnabled: boolean;
+}
+
+export type UpdatePrivacyRequest = Partial<PrivacySettings>;
+
+export interface UpdateProfileRequest {
+  displayName?: string;
+  avatarUrl?: string;
+  status?: UserStatus;
+  // null clears the message
+  statusMessage?: string | null;
+  // When status and message revert to online; null keeps them until changed
+  statusExpiresAt?: string | null;
 }
 
 // Authentication Types
@@ -65,20 +99,104 @@ export interface FriendRequest {
 }
 
 // Conversation Types
+export type ConversationType = 'direct' | 'group';
+
+export type ConversationMemberRole = 'owner' | 'admin' | 'member';
+
+export interface ConversationMember {
+  id: string;
+  conversationId: string;
+  userId: string;
+  role: ConversationMemberRole;
+  joinedAt: Date;
+  // Email is only shared with friends
+  user?: Omit<UserProfile, 'email'>;
+}
+
 export interface Conversation {
   id: string;
-  participantOne: string;
-  participantTwo: string;
+  type: ConversationType;
+  name?: string;
+  avatarUrl?: string;
+  participantOne?: string;
+  participantTwo?: string;
   createdAt: Date;
   updatedAt: Date;
   lastMessageAt?: Date;
-  otherParticipant?: UserProfile;
+  otherParticipant?: Omit<UserProfile, 'email'>;
+  members?: ConversationMember[];
   lastMessage?: Message;
   unreadCount?: number;
+  disappearingTimer: DisappearingTimer;
+  // The requesting user's own settings; absent on broadcasts shared by all members
+  settings?: ConversationSettings;
+  draft?: ConversationDraft | null;
+}
+
+// How long new messages last before they are deleted for everyone
+export type DisappearingTimer = 'off' | '1h' | '1d' | '7d';
+
+export interface UpdateDisappearingTimerRequest {
+  timer: DisappearingTimer;
+}
+
+// Unsent text the user left in a conversation's input, shared by all of their devices
+export interface ConversationDraft {
+  conversationId: string;
+  // Empty when the draft was cleared
+  content: string;
+  updatedAt: Date;
+}
+
+export interface UpdateDraftRequest {
+  // An empty string clears the draft
+  content: string;
+}
+
+// Per-user conversation settings. Archived conversations come back when a new message
+// arrives unless muted; pinned ones sort first by pinOrder
+export interface ConversationSettings {
+  conversationId: string;
+  mutedUntil: Date | null;
+  archived: boolean;
+  pinned: boolean;
+  pinOrder: number | null;
+}
+
+export interface UpdateConversationSettingsRequest {
+  // null unmutes
+  mutedUntil?: string | null;
+  archived?: boolean;
+  pinned?: boolean;
+}
+
+export interface ReorderPinnedRequest {
+  // Every pinned conversation, top first
+  conversationIds: string[];
+}
+
+export interface CreateGroupRequest {
+  name: string;
+  memberIds: string[];
+  avatarUrl?: string;
+}
+
+export interface UpdateGroupRequest {
+  name?: string;
+  avatarUrl?: string;
+}
+
+export interface AddMembersRequest {
+  userIds: string[];
+}
+
+export interface UpdateMemberRoleRequest {
+  role: Exclude<ConversationMemberRole, 'owner'>;
 }
 
 // Message Types
-export type MessageType = 'text' | 'image' | 'pdf' | 'txt' | 'other_file';
+// System messages are notices about the conversation itself, e.g. a changed disappearing timer
+export type MessageType = 'text' | 'image' | 'pdf' | 'txt' | 'other_file' | 'system';
 
 export interface Message {
   id: string;
@@ -90,13 +208,77 @@ export interface Message {
   fileName?: string;
   fileSize?: number;
   fileMimeType?: string;
+  replyToId?: string;
+  replyTo?: MessageReplyPreview | null;
+  clientMessageId?: string;
+  // Copied from another conversation; forwardedFromId is the original message, null once it's deleted
+  isForwarded: boolean;
+  forwardedFromId?: string | null;
   isEdited: boolean;
+  editedAt?: Date;
+  isDeleted: boolean;
+  deletedAt?: Date;
   isRead: boolean;
   deliveredAt?: Date;
   readAt?: Date;
+  // Set when the conversation had a disappearing timer at send time
+  expiresAt?: Date | null;
+  // Whether the viewer starred it; only set on messages loaded for a single user
+  isStarred?: boolean;
   createdAt: Date;
   updatedAt: Date;
   sender?: UserProfile;
+  reactions?: ReactionSummary[];
+  mentions?: MessageMention[];
+  // Arrives later through message_updated, once the server has fetched it
+  linkPreview?: LinkPreview | null;
+}
+
+// Open Graph / oEmbed metadata for the first link in a message; the image is re-hosted by the server
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+// An `@username` in the message text that resolved to a member; offset and length index into content
+export interface MessageMention {
+  userId: string;
+  username: string;
+  offset: number;
+  length: number;
+}
+
+// An `@username` found in message text, before it is matched to a member
+export interface MentionToken {
+  username: string;
+  offset: number;
+  length: number;
+}
+
+// Sent only to the mentioned users, whether or not they muted the conversation
+export interface MentionReceivedEvent {
+  conversationId: string;
+  message: Message;
+}
+
+// A message mentioning the user; read once the user reads the message itself
+export interface MentionInboxItem {
+  message: Message;
+  conversation: Pick<Conversation, 'id' | 'type' | 'name'>;
+  isRead: boolean;
+}
+
+// Short summary of a quoted message, kept even after the original is deleted
+export interface MessageReplyPreview {
+  id: string;
+  senderId: string;
+  senderName: string;
+  messageType: MessageType;
+  preview: string | null;
+  isDeleted: boolean;
 }
 
 export interface SendMessageRequest {
@@ -107,6 +289,172 @@ export interface SendMessageRequest {
   fileName?: string;
   fileSize?: number;
   fileMimeType?: string;
+  replyToId?: string;
+  // Reusing the same id on retry returns the already stored message
+  clientMessageId?: string;
+}
+
+export interface EditMessageRequest {
+  content: string;
+}
+
+export interface ForwardMessagesRequest {
+  messageIds: string[];
+  // Conversations the caller belongs to
+  conversationIds: string[];
+}
+
+export type ScheduledMessageStatus = 'pending' | 'sent' | 'cancelled' | 'failed';
+
+// A message the scheduler sends on the author's behalf at sendAt
+export interface ScheduledMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content?: string;
+  messageType: MessageType;
+  fileUrl?: string;
+  fileName?: string;
+  fileSize?: number;
+  fileMimeType?: string;
+  replyToId?: string;
+  sendAt: Date;
+  status: ScheduledMessageStatus;
+  // Set once sent
+  messageId?: string;
+  // Why the send failed, e.g. the author left the conversation
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateScheduledMessageRequest extends Omit<SendMessageRequest, 'conversationId' | 'clientMessageId'> {
+  sendAt: string;
+}
+
+export interface UpdateScheduledMessageRequest {
+  content?: string;
+  sendAt?: string;
+}
+
+export interface MessageRevision {
+  id: string;
+  messageId: string;
+  content: string;
+  createdAt: Date;
+}
+
+export type DeleteMessageScope = 'me' | 'everyone';
+
+export interface DeleteMessageRequest {
+  scope: DeleteMessageScope;
+}
+
+export interface MessageDeletedEvent {
+  messageId: string;
+  conversationId: string;
+  scope: DeleteMessageScope;
+  deletedAt: Date;
+}
+
+// A message pinned to the top of its conversation for every member
+export interface PinnedMessage {
+  conversationId: string;
+  messageId: string;
+  message: Message;
+  pinnedBy: Pick<User, 'id' | 'username' | 'displayName'>;
+  pinnedAt: Date;
+}
+
+export interface MessageUnpinnedEvent {
+  conversationId: string;
+  messageId: string;
+  // null when the pin went away because the message was deleted
+  unpinnedBy: string | null;
+}
+
+// A message the user saved to their starred collection, with the conversation it's in
+export interface StarredMessage {
+  message: Message;
+  conversation: Pick<Conversation, 'id' | 'type' | 'name'>;
+  starredAt: Date;
+}
+
+// Sent to the user's other devices when they star or unstar a message
+export interface MessageStarUpdatedEvent {
+  conversationId: string;
+  messageId: string;
+  starred: boolean;
+  starredAt: Date | null;
+}
+
+// Disappearing messages removed for everyone once their timer ran out
+export interface MessagesExpiredEvent {
+  conversationId: string;
+  messageIds: string[];
+}
+
+// Reaction Types
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface ReactionRequest {
+  emoji: string;
+}
+
+export interface ReactionEvent {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string;
+  reaction: ReactionSummary;
+}
+
+// Delivery Types
+export interface MarkDeliveredRequest {
+  messageIds: string[];
+}
+
+// Sent to the sender once per recipient that received the message
+export interface MessageDeliveredEvent {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  deliveredAt: Date;
+}
+
+// Queued messages pushed on connection, oldest first; acknowledging a batch marks it delivered
+export interface MessageBacklogEvent {
+  messages: Message[];
+}
+
+// Sent once the pending queue is empty
+export interface BacklogCompleteEvent {
+  count: number;
+}
+
+// Delta Sync Types
+export interface ReadReceiptChange {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  readAt: Date;
+}
+
+// Changes since a checkpoint; pass `checkpoint` as the next `since`, and sync again while `hasMore`
+export interface SyncResponse {
+  // An ISO timestamp, or an opaque token while catching up through many changes at once
+  checkpoint: string;
+  hasMore: boolean;
+  created: Message[];
+  edited: Message[];
+  deleted: MessageDeletedEvent[];
+  expired: MessagesExpiredEvent[];
+  readReceipts: ReadReceiptChange[];
+  deliveries: MessageDeliveredEvent[];
 }
 
 // Real-time Activity Types
@@ -134,6 +482,49 @@ export interface UserSearchResult {
   total: number;
 }
 
+export interface MessageSearchRequest {
+  q: string;
+  conversationId?: string;
+  senderId?: string;
+  from?: string;
+  to?: string;
+  messageType?: MessageType;
+  page?: number;
+  limit?: number;
+}
+
+// Snippet with matched terms wrapped in VALIDATION.SEARCH highlight markers
+export interface MessageSearchHit {
+  message: Message;
+  conversation: Pick<Conversation, 'id' | 'type' | 'name'>;
+  snippet: string;
+  rank: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Rich text parsed from a message's markdown. Clients render these nodes as elements, never as HTML.
+export type RichTextInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: RichTextInline[] }
+  | { type: 'italic'; children: RichTextInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; children: RichTextInline[] }
+  | { type: 'line_break' };
+
+export type RichTextBlock =
+  | { type: 'paragraph'; children: RichTextInline[] }
+  | { type: 'code_block'; language: string | null; text: string }
+  | { type: 'quote'; children: RichTextBlock[] };
+
+export interface RichTextDocument {
+  type: 'document';
+  children: RichTextBlock[];
+}
+
 // Invite Code Types
 export interface InviteCode {
   code: string;
@@ -153,6 +544,34 @@ export interface RedeemInviteCodeRequest {
   code: string;
 }
 
+// Presence Types
+export interface UserPresence {
+  userId: string;
+  isOnline: boolean;
+  lastSeen: Date | null;
+  status: VisibleUserStatus;
+  statusMessage: string | null;
+  statusExpiresAt: Date | null;
+}
+
+export interface FriendOnlineEvent {
+  userId: string;
+  user: Pick<User, 'id' | 'username' | 'displayName'>;
+  timestamp: Date;
+}
+
+export interface FriendOfflineEvent {
+  userId: string;
+  lastSeen: Date | null;
+}
+
+export interface FriendStatusEvent {
+  userId: string;
+  status: VisibleUserStatus;
+  statusMessage: string | null;
+  statusExpiresAt: Date | null;
+}
+
 // File Upload Types
 export interface FileUploadResponse {
   url: string;
@@ -165,25 +584,53 @@ export interface FileUploadResponse {
 export interface SocketEvents {
   // Client to Server
   join_conversation: (conversationId: string) => void;
-  send_message: (message: SendMessageRequest) => void;
+  send_message: (message: SendMessageRequest, ack: (response: SocketAck<Message>) => void) => void;
   typing_start: (conversationId: string) => void;
   typing_stop: (conversationId: string) => void;
   mark_read: (messageId: string) => void;
-  user_online: () => void;
-  user_offline: () => void;
+  mark_delivered: (data: MarkDeliveredRequest) => void;
+  edit_message: (data: EditMessageRequest & { messageId: string }, ack?: (response: SocketAck<Message>) => void) => void;
+  delete_message: (data: DeleteMessageRequest & { messageId: string }, ack?: (response: SocketAck<MessageDeletedEvent>) => void) => void;
+  pin_message: (messageId: string, ack?: (response: SocketAck<PinnedMessage>) => void) => void;
+  unpin_message: (messageId: string, ack?: (response: SocketAck<MessageUnpinnedEvent>) => void) => void;
+  update_draft: (data: UpdateDraftRequest & { conversationId: string }, ack?: (response: SocketAck<ConversationDraft>) => void) => void;
 
   // Server to Client
   message_received: (message: Message) => void;
-  message_delivered: (messageId: string, deliveredAt: Date) => void;
-  message_read: (messageId: string, readAt: Date) => void;
+  message_delivered: (data: MessageDeliveredEvent) => void;
+  message_backlog: (data: MessageBacklogEvent, ack: () => void) => void;
+  backlog_complete: (data: BacklogCompleteEvent) => void;
+  message_read: (data: ReadReceiptChange) => void;
+  message_edited: (message: Message) => void;
+  message_deleted: (data: MessageDeletedEvent) => void;
+  messages_expired: (data: MessagesExpiredEvent) => void;
+  message_pinned: (data: PinnedMessage) => void;
+  message_unpinned: (data: MessageUnpinnedEvent) => void;
+  reaction_added: (data: ReactionEvent) => void;
+  reaction_removed: (data: ReactionEvent) => void;
   user_typing: (userId: string, conversationId: string) => void;
   user_stopped_typing: (userId: string, conversationId: string) => void;
-  friend_online: (userId: string) => void;
-  friend_offline: (userId: string, lastSeen: Date) => void;
+  friend_online: (data: FriendOnlineEvent) => void;
+  friend_offline: (data: FriendOfflineEvent) => void;
+  friend_status_changed: (data: FriendStatusEvent) => void;
   conversation_updated: (conversation: Conversation) => void;
-  read_receipt_updated: (messageId: string, userId: string, readAt: Date) => void;
+  read_receipt_updated: (data: ReadReceiptChange) => void;
+  conversation_created: (conversation: Conversation) => void;
+  members_added: (data: { conversationId: string; members: ConversationMember[]; addedBy: string }) => void;
+  member_removed: (data: { conversationId: string; userId: string; removedBy: string }) => void;
+  member_role_updated: (data: { conversationId: string; member: ConversationMember }) => void;
+  conversation_settings_updated: (data: ConversationSettings) => void;
+  draft_updated: (data: ConversationDraft) => void;
+  message_star_updated: (data: MessageStarUpdatedEvent) => void;
+  mention_received: (data: MentionReceivedEvent) => void;
+  message_updated: (message: Message) => void;
 }
 
+// Acknowledgement returned to the emitter of a socket event
+export type SocketAck<T> =
+  | { success: true; data: T }
+  | { success: false; error: { message: string; statusCode: number } };
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
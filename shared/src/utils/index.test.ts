@@ -0,0 +1,58 @@
+import { findMentions, parseSearchSnippet } from './index';
+import { VALIDATION } from '../constants';
+
+describe('findMentions', () => {
+  it('finds mentions with their offset and length', () => {
+    expect(findMentions('@alice hi @bob_2')).toEqual([
+      { username: 'alice', offset: 0, length: 6 },
+      { username: 'bob_2', offset: 10, length: 6 },
+    ]);
+  });
+
+  it('finds mentions after punctuation', () => {
+    expect(findMentions('(@alice), cc:@bob')).toEqual([
+      { username: 'alice', offset: 1, length: 6 },
+      { username: 'bob', offset: 13, length: 4 },
+    ]);
+  });
+
+  it('ignores email addresses and doubled @', () => {
+    expect(findMentions('mail alice@example.com or @@bob')).toEqual([]);
+  });
+
+  it('ignores names that are not valid usernames', () => {
+    expect(findMentions('@al and @this_name_is_far_too_long')).toEqual([]);
+  });
+});
+
+describe('parseSearchSnippet', () => {
+  const { HIGHLIGHT_START: start, HIGHLIGHT_END: end } = VALIDATION.SEARCH;
+
+  it('splits plain and highlighted text', () => {
+    expect(parseSearchSnippet(`say ${start}hello${end} to ${start}all${end}`)).toEqual([
+      { text: 'say ', highlighted: false },
+      { text: 'hello', highlighted: true },
+      { text: ' to ', highlighted: false },
+      { text: 'all', highlighted: true },
+    ]);
+  });
+
+  it('keeps markup in the snippet as text', () => {
+    expect(parseSearchSnippet(`<b>${start}x${end}</b>`)).toEqual([
+      { text: '<b>', highlighted: false },
+      { text: 'x', highlighted: true },
+      { text: '</b>', highlighted: false },
+    ]);
+  });
+
+  it('highlights to the end when a highlight is not closed', () => {
+    expect(parseSearchSnippet(`a ${start}b`)).toEqual([
+      { text: 'a ', highlighted: false },
+      { text: 'b', highlighted: true },
+    ]);
+  });
+
+  it('returns no segments for an empty snippet', () => {
+    expect(parseSearchSnippet('')).toEqual([]);
+  });
+});
@@ -1,3 +1,8 @@
+import { VALIDATION } from '../constants';
+import type { MentionToken, SnippetSegment } from '../types';
+
+export * from './markdown';
+
 // Validation utilities
 export const isValidEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -15,6 +20,13 @@ export const isValidPassword = (password: string): boolean => {
   return password.length >= 8 && /[a-zA-Z]/.test(password) && /\d/.test(password);
 };
 
+export const isValidReactionEmoji = (emoji: string): boolean => {
+  // Reactions are a single emoji, possibly with modifiers or ZWJ sequences
+  return emoji.length > 0 && emoji.length <= VALIDATION.REACTION.MAX_LENGTH &&
+    /^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u.test(emoji) &&
+    !/^[0-9#*]+$/.test(emoji);
+};
+
 // File utilities
 export const getFileTypeFromMimeType = (mimeType: string): 'image' | 'pdf' | 'txt' | 'other_file' => {
   if (mimeType.startsWith('image/')) return 'image';
@@ -68,7 +80,10 @@ export const formatMessageTime = (date: Date): string => {
   }
 };
 
-export const formatLastSeen = (date: Date): string => {
+export const formatLastSeen = (date: Date | null): string => {
+  // Hidden by the user's privacy settings
+  if (!date) return '';
+
   const now = new Date();
   const lastSeen = new Date(date);
   const diffInMs = now.getTime() - lastSeen.getTime();
@@ -99,6 +114,45 @@ export const truncateText = (text: string, maxLength: number): string => {
   return text.slice(0, maxLength) + '...';
 };
 
-export const sanitizeInput = (input: string): string => {
-  return input.trim().replace(/\s+/g, ' ');
+// Find `@username` mentions in message text. The @ must not follow a word character (so
+// emails don't match) and the name must be a valid username as a whole.
+export const findMentions = (content: string): MentionToken[] => {
+  const mentionRegex = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]+)/g;
+  const mentions: MentionToken[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = mentionRegex.exec(content)) !== null) {
+    const username = match[2];
+    if (!VALIDATION.USERNAME.PATTERN.test(username)) continue;
+
+    mentions.push({
+      username,
+      offset: match.index + match[1].length,
+      length: username.length + 1,
+    });
+  }
+
+  return mentions;
+};
+
+// Split a search snippet into plain and highlighted segments so clients never render it as HTML
+export const parseSearchSnippet = (snippet: string): SnippetSegment[] => {
+  const { HIGHLIGHT_START, HIGHLIGHT_END } = VALIDATION.SEARCH;
+  const segments: SnippetSegment[] = [];
+
+  snippet.split(HIGHLIGHT_START).forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, highlighted: false });
+      return;
+    }
+
+    const endIndex = part.indexOf(HIGHLIGHT_END);
+    const highlighted = endIndex === -1 ? part : part.slice(0, endIndex);
+    const rest = endIndex === -1 ? '' : part.slice(endIndex + HIGHLIGHT_END.length);
+
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (rest) segments.push({ text: rest, highlighted: false });
+  });
+
+  return segments;
 };
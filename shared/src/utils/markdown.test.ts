@@ -0,0 +1,175 @@
+import { isSafeLinkUrl, parseRichText, sanitizeInput, validateRichText } from './markdown';
+import type { RichTextInline } from '../types';
+
+// Inline nodes of a single-paragraph message
+const inline = (content: string): RichTextInline[] => {
+  const [block] = parseRichText(content).children;
+  if (block?.type !== 'paragraph') throw new Error(`Expected a paragraph, got ${block?.type}`);
+  return block.children;
+};
+
+const text = (value: string): RichTextInline => ({ type: 'text', text: value });
+
+describe('parseRichText', () => {
+  it('keeps plain text as a single text node', () => {
+    expect(inline('hello world')).toEqual([text('hello world')]);
+  });
+
+  it('parses bold, italic and inline code', () => {
+    expect(inline('**bold** *it* _it_ `a*b`')).toEqual([
+      { type: 'bold', children: [text('bold')] },
+      text(' '),
+      { type: 'italic', children: [text('it')] },
+      text(' '),
+      { type: 'italic', children: [text('it')] },
+      text(' '),
+      { type: 'code', text: 'a*b' },
+    ]);
+  });
+
+  it('nests italic and bold', () => {
+    expect(inline('*a **b** c*')).toEqual([
+      { type: 'italic', children: [text('a '), { type: 'bold', children: [text('b')] }, text(' c')] },
+    ]);
+    expect(inline('**bold *it***')).toEqual([
+      { type: 'bold', children: [text('bold '), { type: 'italic', children: [text('it')] }] },
+    ]);
+  });
+
+  it('leaves unmatched and empty markup as text', () => {
+    expect(inline('**open *and _more')).toEqual([text('**open *and _more')]);
+    expect(inline('****')).toEqual([text('****')]);
+    expect(inline('a `b')).toEqual([text('a `b')]);
+  });
+
+  it('only treats underscores at word boundaries as italic', () => {
+    expect(inline('snake_case_name')).toEqual([text('snake_case_name')]);
+    expect(inline('_a_b_')).toEqual([{ type: 'italic', children: [text('a_b')] }]);
+  });
+
+  it('keeps escaped markup literal', () => {
+    expect(inline('\\*not italic\\*')).toEqual([text('*not italic*')]);
+  });
+
+  it('parses links with safe URLs only', () => {
+    expect(inline('[site](https://example.com)')).toEqual([
+      { type: 'link', url: 'https://example.com', children: [text('site')] },
+    ]);
+    expect(inline('[x](javascript:alert(1))')).toEqual([text('[x](javascript:alert(1))')]);
+    expect(inline('[](https://example.com)')).toEqual([
+      text('[]('),
+      { type: 'link', url: 'https://example.com', children: [text('https://example.com')] },
+      text(')'),
+    ]);
+  });
+
+  it('keeps markup inside a bracket that is not a link', () => {
+    expect(inline('[*a] b*')).toEqual([text('['), { type: 'italic', children: [text('a] b')] }]);
+  });
+
+  it('links bare URLs without trailing punctuation', () => {
+    expect(inline('see https://example.com/a_(b). ok')).toEqual([
+      text('see '),
+      { type: 'link', url: 'https://example.com/a_(b)', children: [text('https://example.com/a_(b)')] },
+      text('. ok'),
+    ]);
+    expect(inline('(https://example.com)')).toEqual([
+      text('('),
+      { type: 'link', url: 'https://example.com', children: [text('https://example.com')] },
+      text(')'),
+    ]);
+  });
+
+  it('keeps line breaks within a paragraph', () => {
+    expect(inline('a\nb')).toEqual([text('a'), { type: 'line_break' }, text('b')]);
+  });
+
+  it('parses fenced code blocks and quotes', () => {
+    expect(parseRichText('```js\nconst a = 1;\n```\n> quoted\n>> deeper').children).toEqual([
+      { type: 'code_block', language: 'js', text: 'const a = 1;' },
+      {
+        type: 'quote',
+        children: [
+          { type: 'paragraph', children: [text('quoted')] },
+          { type: 'quote', children: [{ type: 'paragraph', children: [text('deeper')] }] },
+        ],
+      },
+    ]);
+  });
+
+  it('treats an unclosed fence as text', () => {
+    expect(parseRichText('```\nnot code').children).toEqual([
+      { type: 'paragraph', children: [text('```'), { type: 'line_break' }, text('not code')] },
+    ]);
+  });
+
+  it('parses large adversarial input in linear time', () => {
+    const patterns = ['[_[**[*', '**_*[`', '[a](', '[a](http://x', 'http://', '`', '```!!\n', '> ', '*'];
+    const input = (pattern: string) => pattern.repeat(Math.ceil(20000 / pattern.length)).slice(0, 20000) + ')';
+
+    const startedAt = Date.now();
+    patterns.forEach(pattern => parseRichText(input(pattern)));
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
+
+describe('validateRichText', () => {
+  it('accepts messages with visible content', () => {
+    expect(validateRichText('**hi**')).toBeNull();
+    expect(validateRichText('```\ncode\n```')).toBeNull();
+  });
+
+  it('rejects messages that render as nothing', () => {
+    expect(validateRichText('```\n\n```')).toBe('Message has no visible content');
+    expect(validateRichText('>  ')).toBe('Message has no visible content');
+  });
+});
+
+describe('isSafeLinkUrl', () => {
+  it('allows web and mail links', () => {
+    expect(isSafeLinkUrl('https://example.com/path?q=1')).toBe(true);
+    expect(isSafeLinkUrl('mailto:someone@example.com')).toBe(true);
+  });
+
+  it('rejects other protocols, whitespace and overlong URLs', () => {
+    expect(isSafeLinkUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeLinkUrl('data:text/html,hi')).toBe(false);
+    expect(isSafeLinkUrl('https://exa mple.com')).toBe(false);
+    expect(isSafeLinkUrl('https:///path')).toBe(false);
+    expect(isSafeLinkUrl(`https://example.com/${'a'.repeat(2048)}`)).toBe(false);
+  });
+});
+
+describe('sanitizeInput', () => {
+  it('collapses spaces and trims line ends and blank lines around the message', () => {
+    expect(sanitizeInput('\n  hello   \t world  \r\nsecond  line \n\n')).toBe('hello world\nsecond line');
+  });
+
+  it('leaves inline code unchanged', () => {
+    expect(sanitizeInput('run  `a  <  b`  then `x   \n  y`  ')).toBe('run `a  <  b` then `x   \n  y`');
+  });
+
+  it('leaves fenced code blocks unchanged', () => {
+    const code = '```ts\nif (a  <  b) {\n    return  1;   \n}\n```';
+    expect(sanitizeInput(`before   it\n${code}\nafter   it`)).toBe(`before it\n${code}\nafter it`);
+    const quoted = sanitizeInput('> quoted  text\n>```\n>  a   b  \n> ```');
+    expect(quoted).toBe('> quoted text\n> ```\n>  a   b  \n> ```');
+    expect(parseRichText(quoted).children[0]).toEqual({
+      type: 'quote',
+      children: [
+        { type: 'paragraph', children: [text('quoted text')] },
+        { type: 'code_block', language: null, text: ' a   b  ' },
+      ],
+    });
+  });
+
+  it('tidies code-like text the parser treats as plain', () => {
+    expect(sanitizeInput('\\`not   code\\`')).toBe('\\`not code\\`');
+    expect(sanitizeInput('```\nnot   closed')).toBe('```\nnot closed');
+  });
+
+  it('keeps a leading space that stops a line becoming a quote', () => {
+    expect(sanitizeInput('a\n   > b')).toBe('a\n > b');
+    expect(parseRichText(sanitizeInput('a\n   > b'))).toEqual(parseRichText('a\n > b'));
+  });
+});
@@ -0,0 +1,416 @@
+import { VALIDATION } from '../constants';
+import type { RichTextBlock, RichTextDocument, RichTextInline } from '../types';
+
+// Message markdown: **bold**, *italic* or _italic_, `code`, ```language code blocks```,
+// [links](https://...), bare http(s) links and > quotes. Anything else is plain text, and a
+// backslash keeps the next markup character literal.
+
+const ESCAPABLE = '\\`*_[]()>';
+const FENCE_PATTERN = /^```(\S*)\s*$/;
+const CLOSING_FENCE_PATTERN = /^```\s*$/;
+const BARE_URL_PATTERN = /https?:\/\/[^\s<>]+/iy;
+const LINK_START_PATTERN = /^(?:https?:\/\/|mailto:)/i;
+
+const isWordChar = (char: string | undefined) => !!char && /[a-zA-Z0-9]/.test(char);
+
+// Links only ever point at web or mail addresses, so `javascript:` and friends stay text
+export const isSafeLinkUrl = (url: string): boolean => {
+  const { LINK_PROTOCOLS, LINK_MAX_LENGTH } = VALIDATION.RICH_TEXT;
+  if (!url || url.length > LINK_MAX_LENGTH || /[\s\u0000-\u001f\u007f]/.test(url)) return false;
+
+  const protocol = url.slice(0, url.indexOf(':') + 1).toLowerCase();
+  if (!(LINK_PROTOCOLS as readonly string[]).includes(protocol)) return false;
+
+  return protocol === 'mailto:' ? url.length > protocol.length : /^https?:\/\/[^/?#]/i.test(url);
+};
+
+// Drop trailing punctuation that ends the sentence rather than the link
+const trimBareUrl = (url: string) => {
+  let opening = 0;
+  let closing = 0;
+  for (const char of url) {
+    if (char === '(') opening++;
+    else if (char === ')') closing++;
+  }
+
+  let end = url.length;
+  while (end > 0 && /[.,;:!?'")\]]/.test(url[end - 1])) {
+    if (url[end - 1] === ')') {
+      // Keep a closing parenthesis that belongs to the URL, as in wiki links
+      if (opening > closing - 1) break;
+      closing--;
+    }
+    end--;
+  }
+  return url.slice(0, end);
+};
+
+const mergeText = (nodes: RichTextInline[]) => nodes.reduce<RichTextInline[]>((merged, node) => {
+  const last = merged[merged.length - 1];
+  if (node.type === 'text' && last?.type === 'text') {
+    merged[merged.length - 1] = { type: 'text', text: last.text + node.text };
+  } else {
+    merged.push(node);
+  }
+  return merged;
+}, []);
+
+type InlineMarker = '**' | '*' | '_' | '[';
+
+interface Opener {
+  marker: InlineMarker;
+  // Position of the opener's own text node; the span's content follows it
+  index: number;
+}
+
+// One pass, left to right. Each opener is written out as text and kept on a stack; a matching
+// closer wraps everything after it and drops any openers left inside. Only one opener of each
+// kind is open at a time, so the stack stays tiny and nothing is scanned twice.
+const parseInline = (text: string): RichTextInline[] => {
+  const nodes: RichTextInline[] = [];
+  const stack: Opener[] = [];
+  let buffer = '';
+  let pos = 0;
+
+  // Where the next backtick and closing parenthesis are; searches only ever move forward
+  let nextBacktick = -1;
+  let nextParen = -1;
+  // End of a bare URL that turned out unusable; links inside it aren't looked for again
+  let plainUntil = 0;
+  const findAhead = (char: string, from: number, cached: number) => {
+    if (cached === Infinity || cached >= from) return cached;
+    const index = text.indexOf(char, from);
+    return index === -1 ? Infinity : index;
+  };
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  const findOpener = (marker: InlineMarker) => stack.find(opener => opener.marker === marker);
+
+  const open = (marker: InlineMarker) => {
+    flush();
+    stack.push({ marker, index: nodes.length });
+    nodes.push({ type: 'text', text: marker });
+  };
+
+  // Close a span, or null when it would be empty; the opener then stays as plain text
+  const close = (opener: Opener) => {
+    flush();
+    stack.length = stack.indexOf(opener);
+    const children = nodes.slice(opener.index + 1);
+    if (children.length === 0) return null;
+
+    nodes.length = opener.index;
+    return mergeText(children);
+  };
+
+  const closeEmphasis = (opener: Opener, type: 'bold' | 'italic') => {
+    const children = close(opener);
+    if (children) {
+      nodes.push({ type, children });
+    } else {
+      open(opener.marker);
+    }
+  };
+
+  // The URL of `[label](url)` when the label just closed at `start`
+  const linkUrlAt = (start: number) => {
+    if (text[start] !== '(' || !LINK_START_PATTERN.test(text.slice(start + 1, start + 9))) return null;
+
+    nextParen = findAhead(')', start + 1, nextParen);
+    if (nextParen === Infinity || nextParen - start - 1 > VALIDATION.RICH_TEXT.LINK_MAX_LENGTH) return null;
+
+    const url = text.slice(start + 1, nextParen);
+    return isSafeLinkUrl(url) ? url : null;
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+    const prev = text[pos - 1];
+    const next = text[pos + 1];
+
+    if (char === '\\' && ESCAPABLE.includes(next ?? '')) {
+      buffer += next;
+      pos += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'line_break' });
+      pos++;
+      continue;
+    }
+
+    if (char === '`') {
+      nextBacktick = findAhead('`', pos + 1, nextBacktick);
+      if (nextBacktick !== Infinity && nextBacktick > pos + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(pos + 1, nextBacktick) });
+        pos = nextBacktick + 1;
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      const double = next === '*';
+      const bold = findOpener('**');
+      const italic = findOpener('*');
+
+      // Bold may start inside italic even though `*` would otherwise close it
+      if (double && bold && !(italic && stack.indexOf(italic) > stack.indexOf(bold))) {
+        closeEmphasis(bold, 'bold');
+        pos += 2;
+      } else if (italic && (!double || bold)) {
+        closeEmphasis(italic, 'italic');
+        pos++;
+      } else {
+        open(double ? '**' : '*');
+        pos += double ? 2 : 1;
+      }
+      continue;
+    }
+
+    // `_` only opens at the start of a word and closes at the end of one, so snake_case stays as written
+    if (char === '_') {
+      const italic = findOpener('_');
+      if (italic && !isWordChar(next)) {
+        closeEmphasis(italic, 'italic');
+        pos++;
+        continue;
+      }
+      if (!italic && !isWordChar(prev)) {
+        open('_');
+        pos++;
+        continue;
+      }
+    }
+
+    if (char === '[' && !findOpener('[')) {
+      open('[');
+      pos++;
+      continue;
+    }
+
+    const label = char === ']' ? findOpener('[') : undefined;
+    if (label) {
+      const url = linkUrlAt(pos + 1);
+      const children = url ? close(label) : null;
+
+      if (url && children) {
+        nodes.push({ type: 'link', url, children });
+        pos += url.length + 3;
+        continue;
+      }
+
+      // Not a link; the bracket stays as text and markup inside it still counts
+      if (stack.includes(label)) stack.splice(stack.indexOf(label), 1);
+      buffer += char;
+      pos++;
+      continue;
+    }
+
+    if ((char === 'h' || char === 'H') && pos >= plainUntil && !isWordChar(prev) && !findOpener('[')) {
+      BARE_URL_PATTERN.lastIndex = pos;
+      const match = BARE_URL_PATTERN.exec(text);
+      const url = match ? trimBareUrl(match[0]) : '';
+
+      if (url && isSafeLinkUrl(url)) {
+        flush();
+        nodes.push({ type: 'link', url, children: [{ type: 'text', text: url }] });
+        pos += url.length;
+        continue;
+      }
+      if (match) plainUntil = pos + match[0].length;
+    }
+
+    buffer += char;
+    pos++;
+  }
+
+  flush();
+  return mergeText(nodes);
+};
+
+const parseBlocks = (lines: string[], depth: number): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    paragraph = [];
+  };
+
+  // The next closing fence at or after each line, found in one backwards pass
+  const closingFences: number[] = new Array(lines.length + 1).fill(-1);
+  for (let index = lines.length - 1; index >= 0; index--) {
+    closingFences[index] = CLOSING_FENCE_PATTERN.test(lines[index]) ? index : closingFences[index + 1];
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // A fence only counts once it is closed; a stray ``` is plain text
+    const fence = FENCE_PATTERN.exec(line);
+    const language = fence?.[1] || null;
+    const closing = fence ? closingFences[i + 1] : -1;
+
+    if (fence && closing !== -1 && (!language || VALIDATION.RICH_TEXT.CODE_LANGUAGE_PATTERN.test(language))) {
+      flushParagraph();
+      blocks.push({ type: 'code_block', language, text: lines.slice(i + 1, closing).join('\n') });
+      i = closing + 1;
+      continue;
+    }
+
+    if (line.startsWith('>') && depth < VALIDATION.RICH_TEXT.MAX_QUOTE_DEPTH) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i].replace(/^> ?/, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+// Parse message markdown into a tree; never fails, unmatched markup is kept as text
+export const parseRichText = (content: string): RichTextDocument => ({
+  type: 'document',
+  children: parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'), 0),
+});
+
+// Collapse runs of spaces and tabs and drop them at line ends, leaving `code` spans as written.
+// A line keeps its leading space when dropping it would turn the line into a quote or fence.
+const tidyParagraph = (text: string): string => {
+  let result = '';
+  let plain = '';
+  let pos = 0;
+
+  const flushPlain = () => {
+    const tidy = plain.replace(/[ \t]+/g, ' ').replace(/ \n/g, '\n').replace(/\n (?=[^>`])/g, '\n');
+    // Code spans end with a backtick, so only the paragraph itself starts a line here
+    result += result === '' ? tidy.replace(/^ (?=[^>`])/, '') : tidy;
+    plain = '';
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+
+    if (char === '\\' && ESCAPABLE.includes(text[pos + 1] ?? '')) {
+      plain += text.slice(pos, pos + 2);
+      pos += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', pos + 1);
+      if (end > pos + 1) {
+        flushPlain();
+        result += text.slice(pos, end + 1);
+        pos = end + 1;
+        continue;
+      }
+    }
+
+    plain += char;
+    pos++;
+  }
+
+  flushPlain();
+  return result.replace(/ $/, '');
+};
+
+// Same block structure as parseBlocks, so code blocks and quotes are recognised exactly as rendered
+const tidyBlocks = (lines: string[], depth: number): string[] => {
+  const tidied: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      tidied.push(tidyParagraph(paragraph.join('\n')));
+    }
+    paragraph = [];
+  };
+
+  const closingFences: number[] = new Array(lines.length + 1).fill(-1);
+  for (let index = lines.length - 1; index >= 0; index--) {
+    closingFences[index] = CLOSING_FENCE_PATTERN.test(lines[index]) ? index : closingFences[index + 1];
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE_PATTERN.exec(line);
+    const language = fence?.[1] || null;
+    const closing = fence ? closingFences[i + 1] : -1;
+
+    if (fence && closing !== -1 && (!language || VALIDATION.RICH_TEXT.CODE_LANGUAGE_PATTERN.test(language))) {
+      flushParagraph();
+      tidied.push(...lines.slice(i, closing + 1));
+      i = closing + 1;
+      continue;
+    }
+
+    if (line.startsWith('>') && depth < VALIDATION.RICH_TEXT.MAX_QUOTE_DEPTH) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i].replace(/^> ?/, ''));
+        i++;
+      }
+      tidied.push(...tidyBlocks(quoted, depth + 1).map(quotedLine => (quotedLine ? `> ${quotedLine}` : '>')));
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      tidied.push('');
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return tidied;
+};
+
+// Tidy whitespace in message markdown without touching code, so it renders the same afterwards
+export const sanitizeInput = (input: string): string =>
+  tidyBlocks(input.replace(/\r\n?/g, '\n').split('\n'), 0).join('\n').replace(/^\n+|\n+$/g, '');
+
+const hasVisibleContent = (blocks: RichTextBlock[]): boolean => blocks.some(block => {
+  if (block.type === 'code_block') return block.text.trim() !== '';
+  if (block.type === 'quote') return hasVisibleContent(block.children);
+  return block.children.some(node => node.type !== 'line_break' && (node.type !== 'text' || node.text.trim() !== ''));
+});
+
+// Why message markdown can't be sent as written, or null when it's fine
+export const validateRichText = (content: string): string | null => {
+  const document = parseRichText(content);
+
+  if (!hasVisibleContent(document.children)) {
+    return 'Message has no visible content';
+  }
+
+  return null;
+};